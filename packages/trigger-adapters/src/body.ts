@@ -0,0 +1,319 @@
+import {
+  BadRequestError,
+  MalformedBodyError,
+  MethodNotAllowedError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+} from "./errors";
+
+/**
+ * `"query"` accepts `GET` requests with the query string as payload, the rest
+ * are request body content types.
+ */
+export type BodyType = "json" | "form" | "multipart" | "text" | "query";
+
+export type BodyOptions = {
+  /**
+   * What payloads are accepted. Requests with any other `Content-Type` are
+   * answered with a 415. Defaults to `["json"]`.
+   */
+  types?: BodyType[];
+  /**
+   * The largest body accepted, in bytes. Defaults to 1 MB.
+   */
+  limit?: number;
+  /**
+   * Stores a file from a multipart body and returns what goes in the payload
+   * in its place, such as the uploaded file's URL. Multipart bodies with files
+   * are rejected with a 400 when it isn't set.
+   */
+  upload?: (file: File, field: string) => unknown | Promise<unknown>;
+};
+
+export type BodyReader = {
+  text(): Promise<string>;
+  formData(): Promise<FormData>;
+  /**
+   * The stream of a Web `Request`, read chunk by chunk up to the limit while
+   * it's unused.
+   */
+  body?: ReadableStream<Uint8Array> | null;
+  bodyUsed?: boolean;
+};
+
+/**
+ * Where the payload of a request comes from.
+ */
+export type BodySource = {
+  method?: string;
+  headers: Headers;
+  query?: URLSearchParams;
+  /**
+   * The body as the framework already parsed it, e.g. with `express.json()`.
+   */
+  parsed?: unknown;
+  /**
+   * The unread body, as a Web `Request` or a Node.js request stream. It's
+   * only read when there's no `parsed` body.
+   */
+  body?: BodyReader | AsyncIterable<Uint8Array | string>;
+};
+
+const DEFAULT_LIMIT = 1024 * 1024;
+
+const MEDIA_TYPES = {
+  json: "application/json",
+  form: "application/x-www-form-urlencoded",
+  multipart: "multipart/form-data",
+  text: "text/plain",
+} as const;
+
+/**
+ * Reads the payload of a request according to its method and `Content-Type`.
+ * Requests without a `Content-Type` are read as JSON.
+ */
+export async function readPayload(source: BodySource, options: BodyOptions = {}): Promise<unknown> {
+  const types = options.types ?? ["json"];
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const method = source.method?.toUpperCase() ?? "POST";
+
+  if (method === "GET" && types.includes("query")) {
+    return toRecord(source.query ?? new URLSearchParams());
+  }
+
+  if (method !== "POST") {
+    throw new MethodNotAllowedError(types.includes("query") ? "GET, POST" : "POST");
+  }
+
+  if (Number(source.headers.get("content-length")) > limit) {
+    throw new PayloadTooLargeError(limit);
+  }
+
+  const type = toBodyType(source.headers.get("content-type"));
+
+  if (!type || !types.includes(type)) {
+    throw new UnsupportedMediaTypeError(
+      types.flatMap((accepted) => (accepted === "query" ? [] : [MEDIA_TYPES[accepted]])).join(", "),
+    );
+  }
+
+  if (source.parsed !== undefined) {
+    return type === "multipart" ? uploadFiles(source.parsed, options) : source.parsed;
+  }
+
+  const body = await readBody(source, limit);
+
+  if (!body) {
+    return undefined;
+  }
+
+  if (type === "multipart") {
+    return readMultipart(body, limit, options);
+  }
+
+  const text = await body.text();
+
+  if (new TextEncoder().encode(text).byteLength > limit) {
+    throw new PayloadTooLargeError(limit);
+  }
+
+  switch (type) {
+    case "json":
+      try {
+        return JSON.parse(text);
+      } catch (error) {
+        throw new MalformedBodyError(undefined, error);
+      }
+    case "form":
+      return toRecord(new URLSearchParams(text));
+    default:
+      return text;
+  }
+}
+
+/**
+ * Reads the body of a request as text, exactly as it was sent, for checking
+ * webhook signatures. `raw` is the body a framework kept aside after parsing
+ * it, such as Express's `request.rawBody`.
+ */
+export async function readRawBody(source: BodySource & { raw?: unknown }, limit = DEFAULT_LIMIT): Promise<string> {
+  const kept = source.raw ?? source.parsed;
+
+  if (kept !== undefined) {
+    return toText(kept);
+  }
+
+  const body = await readBody(source, limit);
+  const text = body ? await body.text() : "";
+
+  if (new TextEncoder().encode(text).byteLength > limit) {
+    throw new PayloadTooLargeError(limit);
+  }
+
+  return text;
+}
+
+function toText(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+    return new TextDecoder().decode(value);
+  }
+
+  throw new Error("Webhook handlers need the raw request body, but it was parsed before reaching the handler");
+}
+
+function toBodyType(contentType: string | null): Exclude<BodyType, "query"> | undefined {
+  if (contentType === null) {
+    return "json";
+  }
+
+  const media = contentType.split(";")[0].trim().toLowerCase();
+
+  if (media.endsWith("+json")) {
+    return "json";
+  }
+
+  return (Object.keys(MEDIA_TYPES) as (keyof typeof MEDIA_TYPES)[]).find((type) => MEDIA_TYPES[type] === media);
+}
+
+async function readMultipart(body: BodyReader, limit: number, options: BodyOptions): Promise<unknown> {
+  let form: FormData;
+
+  try {
+    form = await body.formData();
+  } catch (error) {
+    throw new MalformedBodyError("Request body must be valid multipart form data", error);
+  }
+
+  let size = 0;
+
+  for (const [, value] of form) {
+    size += typeof value === "string" ? new TextEncoder().encode(value).byteLength : value.size;
+  }
+
+  if (size > limit) {
+    throw new PayloadTooLargeError(limit);
+  }
+
+  return uploadFiles(toRecord(form), options);
+}
+
+/**
+ * Replaces the files of a form with what `upload` returns for them.
+ */
+async function uploadFiles(value: unknown, { upload }: BodyOptions): Promise<unknown> {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+
+  const entries = await Promise.all(
+    Object.entries(value).map(async ([field, item]) => {
+      const items = Array.isArray(item) ? item : [item];
+
+      if (!items.some((part) => part instanceof File)) {
+        return [field, item] as const;
+      }
+
+      if (!upload) {
+        throw new BadRequestError("File uploads are not accepted", "upload_not_supported");
+      }
+
+      const uploaded = await Promise.all(items.map((part) => (part instanceof File ? upload(part, field) : part)));
+
+      return [field, Array.isArray(item) ? uploaded : uploaded[0]] as const;
+    }),
+  );
+
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Collects form or query fields into an object, with repeated fields as arrays.
+ */
+function toRecord<T>(entries: Iterable<[string, T]>): Record<string, T | T[]> {
+  const fields = new Map<string, T | T[]>();
+
+  for (const [name, value] of entries) {
+    const existing = fields.get(name);
+
+    if (existing === undefined) {
+      fields.set(name, value);
+    } else {
+      fields.set(name, Array.isArray(existing) ? [...existing, value] : [existing, value]);
+    }
+  }
+
+  return Object.fromEntries(fields);
+}
+
+/**
+ * Buffers a request stream up to the limit. Readers without a stream, such as
+ * a Web `Request` whose body a middleware already read, are returned as they
+ * are and checked once read.
+ */
+async function readBody(source: BodySource, limit: number): Promise<BodyReader | undefined> {
+  const { body, headers } = source;
+
+  if (isAsyncIterable(body)) {
+    return buffer(body, headers, limit);
+  }
+
+  if (body?.body && !body.bodyUsed) {
+    return buffer(chunks(body.body), headers, limit);
+  }
+
+  return body;
+}
+
+/**
+ * Iterates a Web stream, cancelling it when the loop stops early.
+ */
+async function* chunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        return;
+      }
+
+      yield value;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<Uint8Array | string> {
+  return typeof value === "object" && value !== null && Symbol.asyncIterator in value;
+}
+
+/**
+ * Reads a request stream into memory, giving up once it passes the limit.
+ */
+async function buffer(
+  stream: AsyncIterable<Uint8Array | string>,
+  headers: Headers,
+  limit: number,
+): Promise<BodyReader> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for await (const chunk of stream) {
+    const bytes = typeof chunk === "string" ? new TextEncoder().encode(chunk) : chunk;
+    size += bytes.byteLength;
+
+    if (size > limit) {
+      throw new PayloadTooLargeError(limit);
+    }
+
+    chunks.push(bytes);
+  }
+
+  return new Response(new Blob(chunks), { headers: { "Content-Type": headers.get("content-type") ?? "" } });
+}
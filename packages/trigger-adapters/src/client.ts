@@ -0,0 +1,255 @@
+import type { AnyTask, TaskIdentifier, TaskPayload } from "@trigger.dev/sdk";
+import type { BatchItemResult, BatchTriggerResult, TriggerMode, TriggerResult, ValidationIssue } from "./core";
+import type { ProblemDetails } from "./errors";
+import type { RunSummary } from "./runs";
+import { type ClientTriggerOptions, toTriggerOptionHeaders } from "./trigger-options";
+
+export type { BatchTriggerResult, ProblemDetails, RunSummary, TriggerResult, ValidationIssue };
+
+// `HeadersInit` is only a global with the DOM lib.
+type HeadersInit = ConstructorParameters<typeof Headers>[0];
+
+export type TriggerClientOptions = {
+  /**
+   * Where `handler()` is mounted, e.g. `/api/trigger`. Batches are sent to
+   * `{baseUrl}/:id/batch`.
+   */
+  baseUrl: string;
+  /**
+   * Where `runHandler()` is mounted. Defaults to `/runs`.
+   */
+  runsUrl?: string;
+  /**
+   * Sent with every request, such as an `Authorization` header. Pass a
+   * function to read a fresh token for each request.
+   */
+  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+  /**
+   * Defaults to the global `fetch`. Pass a handler, e.g.
+   * `(url, init) => handler()(new Request(url, init))`, to call it without a
+   * network.
+   */
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+};
+
+export type TriggerRequestOptions = {
+  /**
+   * Sent as the `Idempotency-Key` header, so retrying the call returns the
+   * original run.
+   */
+  idempotencyKey?: string;
+  /**
+   * Sent as the `X-Trigger-Mode` header. In `"wait"` mode the result carries
+   * the completed `run`.
+   */
+  mode?: TriggerMode;
+  /**
+   * Sent as `X-Trigger-*` headers. The endpoint must allow them in
+   * `clientOptions`.
+   */
+  options?: ClientTriggerOptions;
+  headers?: HeadersInit;
+  signal?: AbortSignal;
+};
+
+export type BatchRequestOptions = Pick<TriggerRequestOptions, "options" | "headers" | "signal">;
+
+type TaskById<TTasks extends readonly AnyTask[], TaskId> = Extract<TTasks[number], { id: TaskId }>;
+
+export type TriggerClient<TTasks extends readonly AnyTask[] = AnyTask[]> = {
+  trigger<TaskId extends TaskIdentifier<TTasks[number]>>(
+    taskId: TaskId,
+    payload: TaskPayload<TaskById<TTasks, TaskId>>,
+    options?: TriggerRequestOptions,
+  ): Promise<TriggerResult<TaskPayload<TaskById<TTasks, TaskId>>, TaskId>>;
+  batchTrigger<TaskId extends TaskIdentifier<TTasks[number]>>(
+    taskId: TaskId,
+    payloads: TaskPayload<TaskById<TTasks, TaskId>>[],
+    options?: BatchRequestOptions,
+  ): Promise<BatchTriggerResult<TaskPayload<TaskById<TTasks, TaskId>>, TaskId>>;
+  retrieveRun(runId: string, options?: { signal?: AbortSignal }): Promise<RunSummary>;
+  cancelRun(runId: string, options?: { signal?: AbortSignal }): Promise<RunSummary>;
+  replayRun(runId: string, options?: { signal?: AbortSignal }): Promise<RunSummary>;
+};
+
+/**
+ * An error response from a trigger endpoint, with its problem details.
+ */
+export class TriggerClientError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly problem: ProblemDetails;
+
+  constructor(problem: ProblemDetails) {
+    super(problem.detail ?? problem.title);
+    this.name = new.target.name;
+    this.status = problem.status;
+    this.code = problem.code;
+    this.problem = problem;
+  }
+}
+
+/**
+ * The payload failed the endpoint's schema. A batch reports each item in
+ * `items` instead.
+ */
+export class TriggerValidationError extends TriggerClientError {
+  readonly issues: ValidationIssue[];
+  readonly items?: BatchItemResult[];
+
+  constructor(problem: ProblemDetails) {
+    super(problem);
+    this.issues = (problem.issues as ValidationIssue[] | undefined) ?? [];
+    this.items = problem.items as BatchItemResult[] | undefined;
+  }
+}
+
+export class TriggerRateLimitError extends TriggerClientError {
+  /**
+   * Seconds until the caller may try again, from the `Retry-After` header.
+   */
+  readonly retryAfter?: number;
+
+  constructor(problem: ProblemDetails, retryAfter: number | undefined) {
+    super(problem);
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Creates a client for the trigger endpoints that checks task IDs and payloads
+ * against `TTasks`, e.g. `createTriggerClient<typeof tasks>({ baseUrl })` with
+ * the same tasks the endpoint exposes.
+ */
+export function createTriggerClient<const TTasks extends readonly AnyTask[] = AnyTask[]>(
+  options: TriggerClientOptions,
+): TriggerClient<TTasks> {
+  const baseUrl = trimSlashes(options.baseUrl);
+  const runsUrl = trimSlashes(options.runsUrl ?? "/runs");
+  const send = options.fetch ?? ((url, init) => fetch(url, init));
+
+  const request = async <T>(url: string, init: RequestInit, accept?: (body: unknown) => boolean): Promise<T> => {
+    const defaults = typeof options.headers === "function" ? await options.headers() : options.headers;
+    const headers = new Headers(defaults);
+
+    for (const [name, value] of new Headers(init.headers)) {
+      headers.set(name, value);
+    }
+
+    headers.set("Accept", "application/json");
+
+    const response = await send(url, { ...init, headers });
+    const body = await readBody(response);
+
+    if (response.ok || (body !== undefined && accept?.(body))) {
+      return body as T;
+    }
+
+    throw toClientError(response, body);
+  };
+
+  const runRequest = (runId: string, action: string | undefined, signal: AbortSignal | undefined) => {
+    const url = `${runsUrl}/${encodeURIComponent(runId)}${action ? `/${action}` : ""}`;
+
+    return request<RunSummary>(url, { method: action ? "POST" : "GET", signal });
+  };
+
+  return {
+    trigger: (taskId, payload, { idempotencyKey, mode, options: triggerOptions, headers, signal } = {}) => {
+      const init = toPostInit(payload, headers, triggerOptions, signal);
+
+      if (idempotencyKey) {
+        init.headers.set("Idempotency-Key", idempotencyKey);
+      }
+
+      if (mode) {
+        init.headers.set("X-Trigger-Mode", mode);
+      }
+
+      // In wait mode, a run that failed or was canceled is answered with its
+      // result and a matching error status rather than problem details.
+      return request(`${baseUrl}/${encodeURIComponent(taskId)}`, init, isRunResult);
+    },
+    batchTrigger: (taskId, payloads, { options: triggerOptions, headers, signal } = {}) =>
+      request(`${baseUrl}/${encodeURIComponent(taskId)}/batch`, toPostInit(payloads, headers, triggerOptions, signal)),
+    retrieveRun: (runId, { signal } = {}) => runRequest(runId, undefined, signal),
+    cancelRun: (runId, { signal } = {}) => runRequest(runId, "cancel", signal),
+    replayRun: (runId, { signal } = {}) => runRequest(runId, "replay", signal),
+  };
+}
+
+function toPostInit(
+  payload: unknown,
+  headers: HeadersInit | undefined,
+  triggerOptions: ClientTriggerOptions | undefined,
+  signal: AbortSignal | undefined,
+): RequestInit & { headers: Headers } {
+  const init = { method: "POST", headers: new Headers(headers), body: JSON.stringify(payload), signal };
+
+  for (const [name, value] of Object.entries(toTriggerOptionHeaders(triggerOptions ?? {}))) {
+    init.headers.set(name, value);
+  }
+
+  init.headers.set("Content-Type", "application/json");
+
+  return init;
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+
+  if (!text) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function isRunResult(body: unknown): boolean {
+  return typeof body === "object" && body !== null && "run" in body;
+}
+
+/**
+ * Turns an error response into the matching error class. Responses that
+ * aren't problem details, such as a proxy's error page, get a generic
+ * `http_error` code.
+ */
+function toClientError(response: Response, body: unknown): TriggerClientError {
+  const problem: ProblemDetails = isProblem(body)
+    ? body
+    : {
+        type: "about:blank",
+        title: response.statusText || "Request failed",
+        status: response.status,
+        code: "http_error",
+      };
+
+  if (problem.code === "invalid_payload") {
+    return new TriggerValidationError(problem);
+  }
+
+  if (problem.code === "rate_limited") {
+    const retryAfter = response.headers.get("retry-after");
+
+    return new TriggerRateLimitError(problem, retryAfter === null ? undefined : Number(retryAfter));
+  }
+
+  return new TriggerClientError(problem);
+}
+
+function isProblem(body: unknown): body is ProblemDetails {
+  return (
+    typeof body === "object" &&
+    body !== null &&
+    typeof (body as ProblemDetails).status === "number" &&
+    typeof (body as ProblemDetails).code === "string"
+  );
+}
+
+function trimSlashes(url: string): string {
+  return url.replace(/\/+$/, "");
+}
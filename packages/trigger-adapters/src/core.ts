@@ -1,19 +1,1257 @@
-import { tasks } from "@trigger.dev/sdk";
+import type { Span } from "@opentelemetry/api";
+import {
+  type AnyTask,
+  runs,
+  type TaskIdentifier,
+  type TaskPayload,
+  type TriggerOptions,
+  tasks,
+} from "@trigger.dev/sdk";
+import { type BodyOptions, type BodySource, readPayload, readRawBody } from "./body";
+import {
+  BadRequestError,
+  ForbiddenError,
+  MalformedBodyError,
+  MethodNotAllowedError,
+  MissingTaskIdError,
+  NotFoundError,
+  PROBLEM_CONTENT_TYPE,
+  RateLimitError,
+  RunNotFoundError,
+  TaskNotFoundError,
+  type TriggerAdapterError,
+  toAdapterError,
+  UnauthorizedError,
+  upstream,
+  ValidationError,
+  WebhookSignatureError,
+} from "./errors";
+import { createMemoryStore, type RateLimitRule, type RateLimitStore, toRateLimitHeaders } from "./rate-limit";
+import { type ResultSerializer, serializeResult } from "./results";
+import { type RunSummary, retrieveBatchRunIds, retrieveRun, toRunStatusCode, toRunSummary, waitForRun } from "./runs";
+import { createEventStream, type StreamOptions, wantsEventStream } from "./sse";
+import type { StandardSchemaV1 } from "./standard-schema";
+import {
+  injectTraceContext,
+  recordError,
+  removeTraceContext,
+  setSpanAttributes,
+  type TelemetryOptions,
+  withRequestSpan,
+} from "./telemetry";
+import { type ClientTriggerOption, mergeTriggerOptions, readClientOptions } from "./trigger-options";
+import type { WebhookProvider } from "./webhooks";
 
 type Handle = Awaited<ReturnType<typeof tasks.trigger>>;
 
-type TriggerResult<Payload = unknown> = {
-  taskId: string;
+type BatchHandle = Awaited<ReturnType<typeof tasks.batchTrigger>>;
+
+export type { RunSummary };
+
+export type TriggerResult<Payload = unknown, TaskId extends string = string> = {
+  taskId: TaskId;
   payload: Payload;
+  options?: TriggerOptions;
   handle: Handle;
+  /**
+   * Set when the request carried an `Idempotency-Key` header. `created` is
+   * `false` when Trigger.dev returned an existing run for the key.
+   */
+  idempotency?: { key: string; created: boolean };
+  /**
+   * The completed run, in wait mode.
+   */
+  run?: RunSummary;
+  /**
+   * Where to follow the run, in wait mode when it didn't complete in time.
+   */
+  statusUrl?: string;
+};
+
+export type BatchTriggerResult<Payload = unknown, TaskId extends string = string> = {
+  taskId: TaskId;
+  payloads: Payload[];
+  options?: TriggerOptions;
+  handle: BatchHandle;
+  /**
+   * Whether each item of the request was valid and made it into the batch.
+   */
+  items?: BatchItemResult[];
+};
+
+export type BatchItemResult =
+  | {
+      index: number;
+      ok: true;
+      /**
+       * The run triggered for this item, when the batch has created it.
+       */
+      runId?: string;
+    }
+  | { index: number; ok: false; issues: ValidationIssue[] };
+
+/**
+ * The result of triggering one of the registered tasks, narrowed to the payload
+ * type of whichever task was matched.
+ */
+export type TaskTriggerResult<TTask extends AnyTask> = TTask extends AnyTask
+  ? TriggerResult<TaskPayload<TTask>, TaskIdentifier<TTask>>
+  : never;
+
+export type TriggerRequest<TTask extends AnyTask = AnyTask> = {
+  taskId: TaskIdentifier<TTask>;
+  payload: unknown;
+  headers: Headers;
+  /**
+   * Request-scoped state set by the framework, such as SvelteKit's `event.locals`.
+   */
+  locals?: Record<string, unknown>;
+  /**
+   * The client's IP address, where the framework exposes it.
+   */
+  ip?: string;
+  query?: URLSearchParams;
+  /**
+   * The route params, where the framework parses them. Wildcard params may be
+   * arrays of path segments.
+   */
+  params?: Record<string, string | string[] | undefined>;
+  run?: undefined;
+};
+
+/**
+ * What `authorize` is called with when a request reads or acts on an existing
+ * run rather than triggering a new one. It's called before the run is looked
+ * up, so callers it rejects can't tell which runs exist, and the run's task
+ * isn't known yet.
+ */
+export type RunAuthorizeRequest = {
+  run: { id: string; action: RunAction };
+  headers: Headers;
+  locals?: Record<string, unknown>;
+  ip?: string;
+  taskId?: undefined;
+};
+
+/**
+ * What `mapPayload` builds the payload from.
+ */
+export type PayloadContext<TTask extends AnyTask = AnyTask> = {
+  taskId: TaskIdentifier<TTask>;
+  /**
+   * The parsed body, or the `payload` of a request envelope. For batches,
+   * `mapPayload` runs once per item and this is the item.
+   */
+  body: unknown;
+  query: URLSearchParams;
+  params: Record<string, string | string[] | undefined>;
+  headers: Headers;
+  /**
+   * Request-scoped state: Express's `res.locals`, Hono's `c.var`, Koa's
+   * `ctx.state`, SvelteKit's `event.locals`, Elysia's `store`, or the Fastify
+   * request with its decorations.
+   */
+  locals: Record<string, unknown>;
+};
+
+/**
+ * What `beforeTrigger` is called with.
+ */
+export type TriggerHookContext<TTask extends AnyTask = AnyTask, TPayload = unknown> = {
+  request: TriggerRequest<TTask>;
+  taskId: TaskIdentifier<TTask>;
+  /**
+   * The validated payload. For batches, the payloads of the valid items.
+   */
+  payload: TPayload | TPayload[];
+  batch: boolean;
+  /**
+   * The options the task is about to be triggered with.
+   */
+  options: TriggerOptions | undefined;
+};
+
+export type RunAction = "retrieve" | "cancel" | "replay";
+
+export type RunRequest = {
+  runId: string;
+  /**
+   * `cancel` or `replay`, or omitted to retrieve the run.
+   */
+  action?: string;
+  method: string;
+  headers: Headers;
+  locals?: Record<string, unknown>;
+  ip?: string;
+};
+
+export type WebhookRequest = {
+  /**
+   * The raw request body, exactly as the sender signed it.
+   */
+  body: string;
+  headers: Headers;
+  locals?: Record<string, unknown>;
+  ip?: string;
+};
+
+export type ValidationIssue = {
+  message: string;
+  path: (string | number)[];
+};
+
+export type TaskSchemas<TTasks extends readonly AnyTask[]> = {
+  [TTask in TTasks[number] as TaskIdentifier<TTask>]?: StandardSchemaV1<unknown, TaskPayload<TTask>>;
 };
 
-export async function trigger<Payload = unknown>(id: string, payload: Payload): Promise<TriggerResult<Payload>> {
-  const handle = await tasks.trigger(id, payload);
+export type TaskTriggerOptions<TTasks extends readonly AnyTask[]> = {
+  [TTask in TTasks[number] as TaskIdentifier<TTask>]?: TriggerOptions;
+};
+
+export type IdempotencyOptions<TTask extends AnyTask = AnyTask> = {
+  /**
+   * How long an idempotency key stays valid, e.g. `"1h"`. Defaults to
+   * Trigger.dev's own TTL.
+   */
+  ttl?: string;
+  /**
+   * Scopes keys to the caller, typically the authenticated user's ID, so two
+   * users sending the same key get separate runs. Runs after `authorize`.
+   */
+  scope?: (request: TriggerRequest<TTask>) => string | undefined | Promise<string | undefined>;
+};
+
+export type TaskRateLimits<TTasks extends readonly AnyTask[]> = {
+  [TTask in TTasks[number] as TaskIdentifier<TTask>]?: RateLimitRule | false;
+};
+
+export type RateLimitOptions<TTasks extends readonly AnyTask[] = AnyTask[]> = RateLimitRule & {
+  /**
+   * What requests are counted by, such as the caller's IP or user ID. Return
+   * `undefined` to let a request through unlimited. Defaults to `request.ip`,
+   * and is required by the adapters that can't tell the IP rather than every
+   * caller sharing one limit.
+   */
+  key?: (request: TriggerRequest<TTasks[number]>) => string | undefined | Promise<string | undefined>;
+  /**
+   * Limits keyed by task ID, counted separately from the default limit. Set a
+   * task to `false` to leave it unlimited.
+   */
+  tasks?: TaskRateLimits<TTasks>;
+  /**
+   * Where counts are kept. Defaults to an in-memory store per handler.
+   */
+  store?: RateLimitStore;
+};
+
+/**
+ * The `rateLimit` of adapters that can't tell the client's IP, where requests
+ * are counted by `key` and it's required.
+ */
+export type KeyedRateLimit<TTasks extends readonly AnyTask[] = AnyTask[]> = {
+  rateLimit?: RateLimitOptions<TTasks> & Required<Pick<RateLimitOptions<TTasks>, "key">>;
+};
+
+/**
+ * `"async"` responds with the run handle as soon as the task is triggered,
+ * `"wait"` with the run's output once it completes.
+ */
+export type TriggerMode = "async" | "wait";
+
+export type TaskModes<TTasks extends readonly AnyTask[]> = {
+  [TTask in TTasks[number] as TaskIdentifier<TTask>]?: TriggerMode;
+};
+
+export type WaitOptions = {
+  /**
+   * How long to wait for the run, in milliseconds, before responding with a
+   * 202. Defaults to 30 seconds.
+   */
+  timeout?: number;
+  /**
+   * Where `runHandler()` is mounted, used for the `statusUrl` of runs that
+   * are still going when the timeout passes. Defaults to `/runs`.
+   */
+  statusPath?: string;
+};
+
+export type AuthorizeResult = boolean | { status: 401 | 403; error?: string };
+
+export type HandlerOptions<TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown> = {
+  /**
+   * The tasks this endpoint exposes. When set, any other task ID is answered
+   * with a 404 without reaching the Trigger.dev SDK.
+   */
+  tasks?: TTasks;
+  /**
+   * Called before a task is triggered, or before a run is looked up with
+   * `run` set. Return `false` to reject with a 403, or `{ status: 401 }` to
+   * signal missing credentials.
+   */
+  authorize?: (
+    request: TriggerRequest<TTasks[number]> | RunAuthorizeRequest,
+  ) => AuthorizeResult | Promise<AuthorizeResult>;
+  /**
+   * Standard Schema validators (zod, valibot, arktype, ...) keyed by task ID.
+   * Invalid payloads are answered with a 422 and the validated output is what
+   * gets triggered.
+   */
+  schemas?: TaskSchemas<TTasks>;
+  /**
+   * Default trigger options (delay, ttl, tags, queue, ...) keyed by task ID.
+   */
+  triggerOptions?: TaskTriggerOptions<TTasks>;
+  /**
+   * The trigger options clients may set with `X-Trigger-*` headers or the
+   * `options` of a request envelope. Anything else is rejected with a 400.
+   */
+  clientOptions?: ClientTriggerOption[];
+  /**
+   * Read the body as a `{ payload, options }` envelope instead of the bare
+   * payload.
+   */
+  envelope?: boolean;
+  /**
+   * How the payload is read: the content types accepted, the size limit and
+   * where uploaded files go. Defaults to JSON bodies of up to 1 MB.
+   */
+  body?: BodyOptions;
+  /**
+   * Builds the payload to trigger from the request, e.g. to add the current
+   * user's ID from `locals`. Runs after `authorize` and before the payload is
+   * validated.
+   */
+  mapPayload?: (context: PayloadContext<TTasks[number]>) => TPayload | Promise<TPayload>;
+  /**
+   * Configures how the `Idempotency-Key` request header is passed on as the
+   * run's idempotency key.
+   */
+  idempotency?: IdempotencyOptions<TTasks[number]>;
+  /**
+   * Answers callers that go over a limit with a 429 and a `Retry-After`
+   * header, before `authorize` runs.
+   */
+  rateLimit?: RateLimitOptions<TTasks>;
+  /**
+   * Answer requests that accept `text/event-stream` with Server-Sent Events
+   * that follow the triggered run until it completes.
+   */
+  stream?: boolean | StreamOptions;
+  /**
+   * The trigger mode for every task, or keyed by task ID. Clients can pick the
+   * mode per request with an `X-Trigger-Mode: wait` or `async` header.
+   */
+  mode?: TriggerMode | TaskModes<TTasks>;
+  wait?: WaitOptions;
+  /**
+   * What to send back after triggering: one of the presets, or a function that
+   * builds the body from the result. Defaults to `"full"`.
+   */
+  serializeResult?: ResultSerializer<TPayload>;
+  /**
+   * The status to respond with once a task is triggered. Defaults to 200.
+   */
+  successStatus?: 200 | 201 | 202;
+  /**
+   * Builds the `Location` header sent with a triggered run, e.g. pointing at
+   * the run endpoints with ``(runId) => `/runs/${runId}` ``.
+   */
+  location?: (runId: string) => string;
+  /**
+   * Called with every request once it's read, before rate limiting and
+   * `authorize`. Throw one of the errors from `trigger-adapters/errors` to
+   * answer with it instead.
+   */
+  onRequest?: (request: TriggerRequest | RunRequest | WebhookRequest) => void | Promise<void>;
+  /**
+   * Called right before a task is triggered. Return trigger options to trigger
+   * it with those instead, e.g. to add tags or metadata.
+   */
+  beforeTrigger?: (
+    context: TriggerHookContext<TTasks[number], TPayload>,
+  ) => TriggerOptions | undefined | Promise<TriggerOptions | undefined>;
+  /**
+   * Called once a task is triggered, before responding.
+   */
+  afterTrigger?: (
+    result: TriggerResult<TPayload> | BatchTriggerResult<TPayload>,
+    request: TriggerRequest<TTasks[number]>,
+  ) => void | Promise<void>;
+  /**
+   * Opens an OpenTelemetry span for every request and writes the trace
+   * context into the metadata of the runs it triggers.
+   */
+  telemetry?: boolean | TelemetryOptions;
+  /**
+   * Called with every error before it's answered with problem details. Use it
+   * to log errors, or return a response to send in their place. `request` is
+   * undefined when the error was thrown while reading the request.
+   */
+  onError?: (
+    error: TriggerAdapterError,
+    request: TriggerRequest | RunRequest | WebhookRequest | undefined,
+  ) => ErrorResponse | undefined | Promise<ErrorResponse | undefined>;
+};
+
+export type WebhookEvents<TTasks extends readonly AnyTask[]> = Record<string, TaskIdentifier<TTasks[number]>>;
+
+export type WebhookHandlerOptions<TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown> = HandlerOptions<
+  TTasks,
+  TPayload
+> & {
+  /**
+   * Verifies deliveries and reads their event type, e.g. `github({ secret })`
+   * from `trigger-adapters/webhooks`.
+   */
+  provider: WebhookProvider;
+  /**
+   * The task to trigger for each event type. Other events are acknowledged
+   * with a 202 without triggering anything.
+   */
+  events: WebhookEvents<TTasks>;
+};
+
+export type ErrorResponse = {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+};
+
+export type HandlerResponse = {
+  status: number;
+  body: unknown;
+  /**
+   * Set when the client asked for Server-Sent Events. Adapters that can stream
+   * respond with the returned stream instead of `body`.
+   */
+  events?: () => ReadableStream<Uint8Array>;
+  headers?: Record<string, string>;
+};
+
+/**
+ * A framework's request as its adapter hands it to the pipeline: headers,
+ * query and params in web types, and the body left for the pipeline to read.
+ */
+export type AdapterRequest = BodySource & {
+  params?: Record<string, string | string[] | undefined>;
+  locals?: Record<string, unknown>;
+  /**
+   * The client's IP address, or a function that returns it, such as
+   * SvelteKit's `getClientAddress`. A function is only called once `ip` is
+   * read, as some platforms throw when they can't tell the address.
+   */
+  ip?: string | (() => string | undefined);
+};
+
+export type AdapterTriggerRequest = AdapterRequest & {
+  /**
+   * The task ID from the route. `null` when the request is outside the
+   * endpoint's path, which is answered with a 404.
+   */
+  taskId: string | null | undefined;
+};
+
+export type AdapterRunRequest = AdapterRequest & {
+  /**
+   * The run ID from the route, or `null` when the request is outside the
+   * endpoint's path.
+   */
+  runId: string | null | undefined;
+  action?: string;
+};
+
+export type AdapterWebhookRequest = AdapterRequest & {
+  /**
+   * The raw body the framework kept aside, when it parsed the body.
+   */
+  raw?: unknown;
+};
+
+/**
+ * Runs a normalized request against the handler options, e.g. `execute` or
+ * `executeBatch`. `span` is the request's span, when telemetry is on.
+ */
+export type Executor = <TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  request: TriggerRequest,
+  span?: Span,
+) => Promise<HandlerResponse>;
+
+export async function trigger<Payload = unknown, TaskId extends string = string>(
+  id: TaskId,
+  payload: Payload,
+  options?: TriggerOptions,
+): Promise<TriggerResult<Payload, TaskId>> {
+  const handle = await upstream(() => (options ? tasks.trigger(id, payload, options) : tasks.trigger(id, payload)));
+
+  return {
+    handle,
+    taskId: id,
+    payload,
+    options,
+  };
+}
+
+export async function batchTrigger<Payload = unknown, TaskId extends string = string>(
+  id: TaskId,
+  payloads: Payload[],
+  options?: TriggerOptions,
+): Promise<BatchTriggerResult<Payload, TaskId>> {
+  const handle = await upstream(() =>
+    tasks.batchTrigger(
+      id,
+      payloads.map((payload) => ({ payload, options })),
+    ),
+  );
 
   return {
     handle,
     taskId: id,
+    payloads,
+    options,
+  };
+}
+
+/**
+ * Reads a request with `read` and runs it through `executor`. Whatever either
+ * of them throws is answered with problem details, or with the response
+ * `onError` returns. `framework` names the adapter in telemetry.
+ */
+async function dispatch<
+  TOptions extends Pick<HandlerOptions, "onRequest" | "onError" | "telemetry">,
+  TRequest extends TriggerRequest | RunRequest | WebhookRequest,
+>(
+  framework: string,
+  options: TOptions,
+  executor: (options: TOptions, request: TRequest, span?: Span) => Promise<HandlerResponse>,
+  read: () => TRequest | Promise<TRequest>,
+): Promise<HandlerResponse> {
+  return withRequestSpan(options.telemetry, framework, async (span) => {
+    let request: TRequest | undefined;
+
+    try {
+      request = await read();
+
+      if ("taskId" in request) {
+        span?.updateName(`trigger ${request.taskId}`);
+        setSpanAttributes(span, { taskId: request.taskId });
+      } else if ("runId" in request) {
+        span?.updateName(`run ${request.action ?? "retrieve"}`);
+        setSpanAttributes(span, { runId: request.runId });
+      } else {
+        span?.updateName("webhook");
+      }
+
+      await options.onRequest?.(request);
+
+      return await executor(options, request, span);
+    } catch (thrown) {
+      const error = toAdapterError(thrown);
+      recordError(span, error);
+
+      const response = await options.onError?.(error, request);
+
+      if (response) {
+        return response;
+      }
+
+      return {
+        status: error.status,
+        body: error.toProblem(),
+        headers: { ...error.headers, "Content-Type": PROBLEM_CONTENT_TYPE },
+      };
+    }
+  });
+}
+
+/**
+ * The pipeline behind every trigger route: checks the task ID, reads the
+ * payload and runs the request through `run`. Adapters only translate their
+ * framework's request into an `AdapterTriggerRequest` and write the response.
+ */
+export function handleTrigger<TTasks extends readonly AnyTask[], TPayload>(
+  framework: string,
+  options: HandlerOptions<TTasks, TPayload>,
+  run: Executor,
+  read: () => AdapterTriggerRequest | Promise<AdapterTriggerRequest>,
+): Promise<HandlerResponse> {
+  return dispatch(framework, options, run, async () => {
+    const request = await read();
+
+    if (request.taskId === null) {
+      throw new NotFoundError();
+    }
+
+    if (!request.taskId) {
+      throw new MissingTaskIdError();
+    }
+
+    const query = request.query ?? new URLSearchParams();
+
+    return withIp(
+      {
+        taskId: request.taskId,
+        payload: await readPayload({ ...request, query }, options.body),
+        headers: request.headers,
+        query,
+        params: request.params,
+        locals: request.locals,
+      },
+      request.ip,
+    );
+  });
+}
+
+/**
+ * The pipeline behind the run routes.
+ */
+export function handleRun<TTasks extends readonly AnyTask[]>(
+  framework: string,
+  options: HandlerOptions<TTasks>,
+  read: () => AdapterRunRequest | Promise<AdapterRunRequest>,
+): Promise<HandlerResponse> {
+  return dispatch(framework, options, executeRun, async () => {
+    const request = await read();
+
+    if (request.runId === null) {
+      throw new NotFoundError();
+    }
+
+    if (!request.runId) {
+      throw new BadRequestError("Run ID is required");
+    }
+
+    return withIp(
+      {
+        runId: request.runId,
+        action: request.action,
+        method: request.method ?? "GET",
+        headers: request.headers,
+        locals: request.locals,
+      },
+      request.ip,
+    );
+  });
+}
+
+/**
+ * The pipeline behind the webhook routes, which only accept `POST`.
+ */
+export function handleWebhook<TTasks extends readonly AnyTask[], TPayload>(
+  framework: string,
+  options: WebhookHandlerOptions<TTasks, TPayload>,
+  read: () => AdapterWebhookRequest | Promise<AdapterWebhookRequest>,
+): Promise<HandlerResponse> {
+  return dispatch(framework, options, executeWebhook, async () => {
+    const request = await read();
+
+    if (request.method && request.method.toUpperCase() !== "POST") {
+      throw new MethodNotAllowedError("POST");
+    }
+
+    return withIp(
+      {
+        body: await readRawBody(request, options.body?.limit),
+        headers: request.headers,
+        locals: request.locals,
+      },
+      request.ip,
+    );
+  });
+}
+
+export async function execute<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  request: TriggerRequest,
+  span?: Span,
+): Promise<HandlerResponse> {
+  const prepared = await prepare(options, request);
+  const payload = await mapPayload(options, request, prepared.payload);
+  const validation = await validate(options, request.taskId, payload);
+
+  if (!validation.ok) {
+    throw new ValidationError({ issues: validation.issues });
+  }
+
+  const mode = resolveMode(options, request);
+
+  const idempotency = await resolveIdempotency(options, withPayload(request, payload));
+
+  // The payload is whatever `mapPayload` returned, as parsed by the task's schema.
+  const value = validation.value as TPayload;
+
+  const triggerOptions = await beforeTrigger(
+    options,
+    request,
+    value,
+    idempotency ? { ...prepared.triggerOptions, ...idempotency.options } : prepared.triggerOptions,
+    false,
+    span,
+  );
+  const result = await trigger(request.taskId, value, triggerOptions);
+
+  const body: TriggerResult<TPayload> = {
+    ...result,
+    options: reportedOptions(options, triggerOptions, idempotency?.options),
+    ...(idempotency && { idempotency: { key: idempotency.key, created: !isCached(result.handle) } }),
+  };
+
+  setSpanAttributes(span, { taskId: request.taskId, runId: body.handle.id });
+  await options.afterTrigger?.(body, request as TriggerRequest<TTasks[number]>);
+
+  if (options.stream && wantsEventStream(request.headers)) {
+    const streamOptions = options.stream === true ? {} : options.stream;
+    const serialized = serializeResult(options.serializeResult, body);
+
+    return {
+      status: 200,
+      body: serialized,
+      events: () => createEventStream(body.handle.id, serialized, streamOptions),
+    };
+  }
+
+  const outcome =
+    mode === "wait" ? await waitForResult(options, body, span) : { status: options.successStatus ?? 200, result: body };
+
+  return {
+    status: outcome.status,
+    body: serializeResult(options.serializeResult, outcome.result),
+    headers: options.location ? { Location: options.location(body.handle.id) } : undefined,
+  };
+}
+
+/**
+ * Waits for a triggered run to complete. Runs still going when the timeout
+ * passes are answered with a 202 and the URL to follow them at.
+ */
+async function waitForResult<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  result: TriggerResult<TPayload>,
+  span: Span | undefined,
+): Promise<{ status: number; result: TriggerResult<TPayload> }> {
+  const run = await waitForRun(result.handle.id, options.wait?.timeout ?? 30_000);
+
+  if (!run) {
+    const statusPath = (options.wait?.statusPath ?? "/runs").replace(/\/+$/, "");
+
+    return { status: 202, result: { ...result, statusUrl: `${statusPath}/${encodeURIComponent(result.handle.id)}` } };
+  }
+
+  setSpanAttributes(span, { runStatus: run.status });
+
+  return { status: toRunStatusCode(run.status), result: { ...result, run } };
+}
+
+/**
+ * Triggers every item of an array payload as a single batch. Items that fail
+ * validation are reported in `items` and left out of the batch rather than
+ * failing the whole request.
+ */
+export async function executeBatch<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  request: TriggerRequest,
+  span?: Span,
+): Promise<HandlerResponse> {
+  const prepared = await prepare(options, request);
+
+  if (!Array.isArray(prepared.payload) || prepared.payload.length === 0) {
+    throw new MalformedBodyError("Batch payload must be a non-empty array");
+  }
+
+  const mapped = await Promise.all(prepared.payload.map((item) => mapPayload(options, request, item)));
+  const validations = await Promise.all(mapped.map((payload) => validate(options, request.taskId, payload)));
+
+  const items: BatchItemResult[] = validations.map((validation, index) =>
+    validation.ok ? { index, ok: true } : { index, ok: false, issues: validation.issues },
+  );
+
+  const payloads = validations.flatMap((validation) => (validation.ok ? [validation.value as TPayload] : []));
+
+  if (payloads.length === 0) {
+    throw new ValidationError({ items });
+  }
+
+  const triggerOptions = await beforeTrigger(options, request, payloads, prepared.triggerOptions, true, span);
+  const result = await batchTrigger(request.taskId, payloads, triggerOptions);
+
+  setSpanAttributes(span, { batchId: result.handle.batchId });
+  await options.afterTrigger?.(result, request as TriggerRequest<TTasks[number]>);
+
+  // The batch holds only the valid items, so its runs line up with those in order.
+  const runIds = await retrieveBatchRunIds(result.handle.batchId);
+  let position = 0;
+
+  for (const item of items) {
+    if (item.ok) {
+      item.runId = runIds[position++];
+    }
+  }
+
+  const body = { ...result, options: removeTraceContext(options.telemetry, result.options), items };
+
+  return { status: options.successStatus ?? 200, body: serializeResult(options.serializeResult, body) };
+}
+
+/**
+ * Verifies a webhook delivery and triggers the task its event type maps to,
+ * with the parsed event as payload.
+ */
+export async function executeWebhook<TTasks extends readonly AnyTask[], TPayload>(
+  options: WebhookHandlerOptions<TTasks, TPayload>,
+  request: WebhookRequest,
+  span?: Span,
+): Promise<HandlerResponse> {
+  const { provider } = options;
+
+  if (!(await provider.verify(request.body, request.headers))) {
+    throw new WebhookSignatureError();
+  }
+
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(request.body);
+  } catch (error) {
+    throw new MalformedBodyError(undefined, error);
+  }
+
+  const reply = provider.respond?.(payload);
+
+  if (reply !== undefined) {
+    return { status: 200, body: reply };
+  }
+
+  const event = provider.event(payload, request.headers);
+
+  if (event === undefined || !Object.hasOwn(options.events, event)) {
+    return { status: 202, body: { event, ignored: true } };
+  }
+
+  const headers = new Headers(request.headers);
+  const deliveryId = provider.deliveryId?.(payload, request.headers);
+
+  if (deliveryId && !headers.has("idempotency-key")) {
+    headers.set("idempotency-key", deliveryId);
+  }
+
+  return execute(
+    options,
+    withIp({ taskId: options.events[event], payload, headers, locals: request.locals }, () => request.ip),
+    span,
+  );
+}
+
+/**
+ * Retrieves, cancels or replays an existing run. Runs of tasks the endpoint
+ * doesn't expose are answered with a 404, as if they didn't exist.
+ */
+export async function executeRun<TTasks extends readonly AnyTask[]>(
+  options: HandlerOptions<TTasks>,
+  request: RunRequest,
+): Promise<HandlerResponse> {
+  const action = toRunAction(request.action);
+
+  if (!action) {
+    throw new NotFoundError();
+  }
+
+  const method = action === "retrieve" ? "GET" : "POST";
+
+  if (request.method.toUpperCase() !== method) {
+    throw new MethodNotAllowedError(method);
+  }
+
+  await authorize(options, {
+    headers: request.headers,
+    locals: request.locals,
+    ip: request.ip,
+    run: { id: request.runId, action },
+  });
+
+  const run = await retrieveRun(request.runId);
+
+  if (!run || !isRegistered(options, { taskId: run.taskIdentifier, payload: run.payload, headers: request.headers })) {
+    throw new RunNotFoundError();
+  }
+
+  if (action === "retrieve") {
+    return { status: 200, body: toRunSummary(run) };
+  }
+
+  const { id } = await upstream(() => (action === "cancel" ? runs.cancel(run.id) : runs.replay(run.id)));
+  const result = await retrieveRun(id);
+
+  if (!result) {
+    throw new RunNotFoundError();
+  }
+
+  return { status: 200, body: toRunSummary(result) };
+}
+
+/**
+ * Checks the task is exposed and within its rate limit, unwraps the request
+ * envelope, resolves the trigger options and runs the `authorize` hook.
+ */
+async function prepare<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  request: TriggerRequest,
+): Promise<{ payload: unknown; triggerOptions?: TriggerOptions }> {
+  if (!isRegistered(options, request)) {
+    throw new TaskNotFoundError();
+  }
+
+  await rateLimit(options, request);
+
+  let payload = request.payload;
+  let envelopeOptions: unknown;
+
+  if (options.envelope) {
+    if (typeof payload !== "object" || payload === null || !("payload" in payload)) {
+      throw new MalformedBodyError("Request body must be a { payload, options } envelope");
+    }
+
+    ({ payload, options: envelopeOptions } = payload as { payload: unknown; options?: unknown });
+  }
+
+  const client = readClientOptions(request.headers, envelopeOptions, options.clientOptions ?? []);
+
+  if (!client.ok) {
+    throw new BadRequestError(client.error, "invalid_trigger_option");
+  }
+
+  await authorize(options, withPayload(request, payload));
+
+  const defaults = options.triggerOptions?.[request.taskId as keyof TaskTriggerOptions<TTasks>] as
+    | TriggerOptions
+    | undefined;
+
+  return { payload, triggerOptions: mergeTriggerOptions(defaults, client.options) };
+}
+
+const memoryStores = new WeakMap<RateLimitOptions, RateLimitStore>();
+
+/**
+ * Counts the request against its rate limit, throwing once the limit is used
+ * up.
+ */
+/**
+ * Checks a `rateLimit` has a `key` when the handler is built, for callers
+ * without the types of `KeyedRateLimit`, rather than failing every request.
+ */
+export function requireRateLimitKey(options: Pick<HandlerOptions, "rateLimit">, reason: string): void {
+  if (options.rateLimit && !options.rateLimit.key) {
+    throw new TypeError(`rateLimit.key is required, as ${reason}`);
+  }
+}
+
+async function rateLimit<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  request: TriggerRequest<TTasks[number]>,
+): Promise<void> {
+  const limits = options.rateLimit as RateLimitOptions | undefined;
+
+  if (!limits) {
+    return;
+  }
+
+  const taskRule = limits.tasks?.[request.taskId];
+
+  if (taskRule === false) {
+    return;
+  }
+
+  // Counting every caller in one bucket would let one client use up the limit
+  // for everyone.
+  if (!limits.key && request.ip === undefined) {
+    throw new Error("rateLimit needs a key where the adapter can't tell the client's IP");
+  }
+
+  const key = limits.key ? await limits.key(request) : request.ip;
+
+  if (key === undefined) {
+    return;
+  }
+
+  let store = limits.store ?? memoryStores.get(limits);
+
+  if (!store) {
+    store = createMemoryStore();
+    memoryStores.set(limits, store);
+  }
+
+  const rule = taskRule ?? { limit: limits.limit, window: limits.window };
+  const result = await store.consume(taskRule ? `${request.taskId}:${key}` : key, rule);
+
+  if (!result.allowed) {
+    throw new RateLimitError(Math.ceil(result.reset / 1000), toRateLimitHeaders(rule, result));
+  }
+}
+
+/**
+ * Runs `mapPayload` with the request's context, or passes the body through
+ * when it isn't set.
+ */
+async function mapPayload<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  request: TriggerRequest,
+  body: unknown,
+): Promise<unknown> {
+  if (!options.mapPayload) {
+    return body;
+  }
+
+  return options.mapPayload({
+    // `prepare` has already rejected task IDs that aren't registered.
+    taskId: request.taskId as TaskIdentifier<TTasks[number]>,
+    body,
+    query: request.query ?? new URLSearchParams(),
+    params: request.params ?? {},
+    headers: request.headers,
+    locals: request.locals ?? {},
+  });
+}
+
+/**
+ * Returns the trigger mode for a request, rejecting an `X-Trigger-Mode` header
+ * that isn't a valid mode.
+ */
+function resolveMode<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  request: TriggerRequest,
+): TriggerMode {
+  const header = request.headers.get("x-trigger-mode");
+
+  if (header !== null) {
+    if (header !== "async" && header !== "wait") {
+      throw new BadRequestError('Trigger mode must be "async" or "wait"', "invalid_trigger_mode");
+    }
+
+    return header;
+  }
+
+  if (typeof options.mode === "string") {
+    return options.mode;
+  }
+
+  return (options.mode?.[request.taskId as keyof TaskModes<TTasks>] as TriggerMode | undefined) ?? "async";
+}
+
+/**
+ * Adds the trace context to the trigger options and runs the `beforeTrigger`
+ * hook, which may replace them.
+ */
+async function beforeTrigger<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  request: TriggerRequest,
+  payload: TPayload | TPayload[],
+  triggerOptions: TriggerOptions | undefined,
+  batch: boolean,
+  span: Span | undefined,
+): Promise<TriggerOptions | undefined> {
+  const traced = injectTraceContext(options.telemetry, span, triggerOptions);
+
+  if (!options.beforeTrigger) {
+    return traced;
+  }
+
+  // `prepare` has already rejected task IDs that aren't registered.
+  const hooked = await options.beforeTrigger({
+    request: request as TriggerRequest<TTasks[number]>,
+    taskId: request.taskId as TaskIdentifier<TTasks[number]>,
     payload,
+    batch,
+    options: traced,
+  });
+
+  return hooked ?? traced;
+}
+
+/**
+ * Reads the `Idempotency-Key` header and turns it into trigger options, scoped
+ * to the caller when `idempotency.scope` returns a value.
+ */
+async function resolveIdempotency<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  request: TriggerRequest,
+): Promise<{ key: string; options: TriggerOptions } | undefined> {
+  const key = request.headers.get("idempotency-key")?.trim();
+
+  if (!key) {
+    return undefined;
+  }
+
+  // `prepare` has already rejected task IDs that aren't registered.
+  const scope = await options.idempotency?.scope?.(request as TriggerRequest<TTasks[number]>);
+  const ttl = options.idempotency?.ttl;
+
+  return {
+    key,
+    options: {
+      idempotencyKey: scope ? [scope, key] : key,
+      ...(ttl ? { idempotencyKeyTTL: ttl } : {}),
+    },
+  };
+}
+
+/**
+ * The options a run was triggered with, as reported in the result: without
+ * the idempotency key scoped from the `Idempotency-Key` header, which is
+ * reported as `idempotency`, or the trace context added to the metadata.
+ */
+function reportedOptions<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  triggerOptions: TriggerOptions | undefined,
+  idempotency: TriggerOptions | undefined,
+): TriggerOptions | undefined {
+  const reported = removeTraceContext(options.telemetry, triggerOptions);
+
+  if (!reported || !idempotency) {
+    return reported;
+  }
+
+  const { idempotencyKey, idempotencyKeyTTL, ...rest } = reported;
+  const result: TriggerOptions = {
+    ...rest,
+    // Keys `beforeTrigger` replaced are its own, and reported.
+    ...(idempotencyKey !== idempotency.idempotencyKey && { idempotencyKey }),
+    ...(idempotencyKeyTTL !== idempotency.idempotencyKeyTTL && { idempotencyKeyTTL }),
   };
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Trigger.dev flags runs returned for an existing idempotency key with
+ * `isCached`, which the SDK passes through without typing it on the handle.
+ */
+function isCached(handle: Handle): boolean {
+  return (handle as Handle & { isCached?: boolean }).isCached === true;
+}
+
+/**
+ * Runs the `authorize` hook, throwing when it rejects the request.
+ */
+async function authorize<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  request: TriggerRequest | RunAuthorizeRequest,
+): Promise<void> {
+  if (!options.authorize) {
+    return;
+  }
+
+  // Trigger requests have already been checked against the registered tasks.
+  const result = await options.authorize(request as TriggerRequest<TTasks[number]> | RunAuthorizeRequest);
+
+  if (result === false) {
+    throw new ForbiddenError();
+  }
+
+  if (typeof result === "object") {
+    throw result.status === 401 ? new UnauthorizedError(result.error) : new ForbiddenError(result.error);
+  }
+}
+
+async function validate<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  taskId: string,
+  payload: unknown,
+): Promise<{ ok: true; value: unknown } | { ok: false; issues: ValidationIssue[] }> {
+  const schema = options.schemas?.[taskId as keyof TaskSchemas<TTasks>] as StandardSchemaV1 | undefined;
+
+  if (!schema) {
+    return { ok: true, value: payload };
+  }
+
+  const result = await schema["~standard"].validate(payload);
+
+  if (result.issues) {
+    return { ok: false, issues: result.issues.map(toValidationIssue) };
+  }
+
+  return { ok: true, value: result.value };
+}
+
+function toValidationIssue(issue: StandardSchemaV1.Issue): ValidationIssue {
+  return {
+    message: issue.message,
+    path: (issue.path ?? []).map((segment) => {
+      const key = typeof segment === "object" ? segment.key : segment;
+      return typeof key === "number" ? key : String(key);
+    }),
+  };
+}
+
+function toRunAction(action: string | undefined): RunAction | undefined {
+  if (!action) {
+    return "retrieve";
+  }
+
+  return action === "cancel" || action === "replay" ? action : undefined;
+}
+
+function isRegistered<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  request: TriggerRequest,
+): request is TriggerRequest<TTasks[number]> {
+  if (!options.tasks) {
+    return true;
+  }
+
+  return options.tasks.some((task) => task.id === request.taskId);
+}
+
+/**
+ * Sets `ip` on a request. A function is called the first time `ip` is read and
+ * its result kept.
+ */
+function withIp<T extends object>(request: T, ip: AdapterRequest["ip"]): T & { ip?: string } {
+  if (typeof ip !== "function") {
+    return { ...request, ip };
+  }
+
+  let address: { value: string | undefined } | undefined;
+
+  return Object.defineProperty(request, "ip", {
+    enumerable: true,
+    get: () => {
+      address ??= { value: ip() };
+      return address.value;
+    },
+  }) as T & { ip?: string };
+}
+
+/**
+ * Copies a request with another payload, leaving a lazy `ip` unread.
+ */
+function withPayload<T extends TriggerRequest>(request: T, payload: unknown): T {
+  return Object.defineProperties(
+    {},
+    {
+      ...Object.getOwnPropertyDescriptors(request),
+      payload: { value: payload, enumerable: true, writable: true, configurable: true },
+    },
+  ) as T;
+}
+
+/**
+ * Reads the query string of a request URL, which may be just the path.
+ */
+export function toSearchParams(url: string | undefined): URLSearchParams {
+  return new URL(url ?? "/", "http://localhost").searchParams;
+}
+
+export function toHeaders(headers: Record<string, string | string[] | undefined> = {}): Headers {
+  const result = new Headers();
+
+  for (const [key, value] of Object.entries(headers)) {
+    if (Array.isArray(value)) {
+      for (const item of value) {
+        result.append(key, item);
+      }
+    } else if (value !== undefined) {
+      result.set(key, value);
+    }
+  }
+
+  return result;
 }
@@ -0,0 +1,121 @@
+import type { AnyTask } from "@trigger.dev/sdk";
+import type { Context } from "elysia";
+import {
+  type Executor,
+  execute,
+  executeBatch,
+  type HandlerOptions,
+  type HandlerResponse,
+  handleRun,
+  handleTrigger,
+  handleWebhook,
+  type WebhookHandlerOptions,
+} from "./core";
+import { generateOpenAPI, type OpenAPIOptions } from "./openapi";
+import { toEventStreamResponse } from "./sse";
+
+export type { HandlerOptions, RunSummary, TaskTriggerResult, TriggerResult, ValidationIssue } from "./core";
+
+export type ElysiaContext = Pick<Context, "body" | "request" | "set" | "store"> & {
+  params: Record<string, string | undefined>;
+  /**
+   * The Bun server, which tells the client's IP. `null` elsewhere.
+   */
+  server?: Context["server"];
+};
+
+export function handler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: HandlerOptions<TTasks, TPayload> = {},
+): (context: ElysiaContext) => Promise<unknown> {
+  return createHandler(options, execute);
+}
+
+/**
+ * Triggers an array body as a single batch. Mount it at `/trigger/:id/batch`.
+ */
+export function batchHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: HandlerOptions<TTasks, TPayload> = {},
+): (context: ElysiaContext) => Promise<unknown> {
+  return createHandler(options, executeBatch);
+}
+
+/**
+ * Serves the run endpoints. Mount it at `GET /runs/:runId` and
+ * `POST /runs/:runId/:action`, where the action is `cancel` or `replay`.
+ */
+export function runHandler<const TTasks extends readonly AnyTask[] = AnyTask[]>(
+  options: HandlerOptions<TTasks> = {},
+): (context: ElysiaContext) => Promise<unknown> {
+  return async ({ params, request, set, server }: ElysiaContext) => {
+    const result = await handleRun("elysia", options, () => ({
+      runId: params.runId,
+      action: params.action,
+      method: request.method,
+      headers: request.headers,
+      ip: () => server?.requestIP(request)?.address,
+    }));
+
+    return send(set, result);
+  };
+}
+
+/**
+ * Triggers tasks from a third-party webhook. Signatures are checked against the
+ * raw body, so register the route with `{ parse: "text" }`.
+ */
+export function webhookHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: WebhookHandlerOptions<TTasks, TPayload>,
+): (context: ElysiaContext) => Promise<unknown> {
+  return async ({ body, request, set, server }: ElysiaContext) => {
+    const result = await handleWebhook("elysia", options, () => ({
+      method: request.method,
+      headers: request.headers,
+      parsed: body,
+      ip: () => server?.requestIP(request)?.address,
+    }));
+
+    return send(set, result);
+  };
+}
+
+/**
+ * Serves the OpenAPI document describing the trigger endpoints. Mount it with
+ * `app.get("/openapi.json", openAPIHandler(options))`.
+ */
+export function openAPIHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: OpenAPIOptions<TTasks, TPayload> = {},
+): (context: ElysiaContext) => unknown {
+  const document = generateOpenAPI(options);
+
+  return ({ set }: ElysiaContext) => send(set, { status: 200, body: document });
+}
+
+function createHandler<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  run: Executor,
+): (context: ElysiaContext) => Promise<unknown> {
+  return async ({ params, body, request, set, store, server }: ElysiaContext) => {
+    const result = await handleTrigger("elysia", options, run, () => ({
+      taskId: params.id,
+      method: request.method,
+      headers: request.headers,
+      query: new URL(request.url).searchParams,
+      params,
+      parsed: body,
+      locals: store,
+      ip: () => server?.requestIP(request)?.address,
+    }));
+
+    if (result.events) {
+      return toEventStreamResponse(result.events());
+    }
+
+    return send(set, result);
+  };
+}
+
+function send(set: ElysiaContext["set"], result: HandlerResponse): unknown {
+  set.status = result.status;
+  Object.assign(set.headers, result.headers);
+  return result.body;
+}
@@ -0,0 +1,191 @@
+/**
+ * An RFC 9457 problem details object, sent as `application/problem+json`.
+ * `code` identifies the kind of error and extension members such as `issues`
+ * carry its details.
+ */
+export type ProblemDetails = {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  code: string;
+  [extension: string]: unknown;
+};
+
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+type ErrorOptions = {
+  cause?: unknown;
+  extensions?: Record<string, unknown>;
+  headers?: Record<string, string>;
+};
+
+/**
+ * The base class of every error the handlers respond with. Throw one from a
+ * hook such as `authorize` to answer with its status and problem details.
+ */
+export class TriggerAdapterError extends Error {
+  readonly status: number;
+  readonly title: string;
+  readonly code: string;
+  readonly extensions?: Record<string, unknown>;
+  readonly headers?: Record<string, string>;
+
+  constructor(status: number, title: string, code: string, detail: string, options: ErrorOptions = {}) {
+    super(detail, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = status;
+    this.title = title;
+    this.code = code;
+    this.extensions = options.extensions;
+    this.headers = options.headers;
+  }
+
+  toProblem(): ProblemDetails {
+    return {
+      ...this.extensions,
+      type: "about:blank",
+      title: this.title,
+      status: this.status,
+      detail: this.message,
+      code: this.code,
+    };
+  }
+}
+
+export class BadRequestError extends TriggerAdapterError {
+  constructor(detail: string, code = "bad_request") {
+    super(400, "Bad Request", code, detail);
+  }
+}
+
+export class MissingTaskIdError extends BadRequestError {
+  constructor() {
+    super("Task ID is required", "missing_task_id");
+  }
+}
+
+/**
+ * The request body couldn't be parsed, or doesn't have the shape the endpoint
+ * expects.
+ */
+export class MalformedBodyError extends TriggerAdapterError {
+  constructor(detail = "Request body must be valid JSON", cause?: unknown) {
+    super(400, "Bad Request", "malformed_body", detail, { cause });
+  }
+}
+
+export class UnauthorizedError extends TriggerAdapterError {
+  constructor(detail = "Unauthorized") {
+    super(401, "Unauthorized", "unauthorized", detail);
+  }
+}
+
+export class ForbiddenError extends TriggerAdapterError {
+  constructor(detail = "Forbidden") {
+    super(403, "Forbidden", "forbidden", detail);
+  }
+}
+
+export class NotFoundError extends TriggerAdapterError {
+  constructor(detail = "Not found", code = "not_found") {
+    super(404, "Not Found", code, detail);
+  }
+}
+
+export class TaskNotFoundError extends NotFoundError {
+  constructor() {
+    super("Task not found", "task_not_found");
+  }
+}
+
+export class RunNotFoundError extends NotFoundError {
+  constructor() {
+    super("Run not found", "run_not_found");
+  }
+}
+
+export class WebhookSignatureError extends TriggerAdapterError {
+  constructor() {
+    super(401, "Unauthorized", "invalid_signature", "Invalid webhook signature");
+  }
+}
+
+export class MethodNotAllowedError extends TriggerAdapterError {
+  constructor(allow: string) {
+    super(405, "Method Not Allowed", "method_not_allowed", "Method not allowed", { headers: { Allow: allow } });
+  }
+}
+
+export class PayloadTooLargeError extends TriggerAdapterError {
+  constructor(limit: number) {
+    super(413, "Content Too Large", "payload_too_large", `Request body must be at most ${limit} bytes`);
+  }
+}
+
+/**
+ * The request's `Content-Type` isn't one the endpoint reads. `accept` lists
+ * the media types it does, and is sent as the `Accept-Post` header.
+ */
+export class UnsupportedMediaTypeError extends TriggerAdapterError {
+  constructor(accept: string) {
+    super(415, "Unsupported Media Type", "unsupported_media_type", "Unsupported content type", {
+      headers: { "Accept-Post": accept },
+    });
+  }
+}
+
+/**
+ * The caller used up its rate limit. `retryAfter` is in seconds.
+ */
+export class RateLimitError extends TriggerAdapterError {
+  constructor(retryAfter: number, headers: Record<string, string> = {}) {
+    super(429, "Too Many Requests", "rate_limited", "Too many requests", {
+      headers: { ...headers, "Retry-After": String(retryAfter) },
+    });
+  }
+}
+
+/**
+ * The payload failed schema validation. `extensions` holds the `issues`, or
+ * the per-item results of a batch.
+ */
+export class ValidationError extends TriggerAdapterError {
+  constructor(extensions: Record<string, unknown>) {
+    super(422, "Unprocessable Content", "invalid_payload", "Invalid payload", { extensions });
+  }
+}
+
+/**
+ * A call to the Trigger.dev API failed. The SDK's error is kept as `cause`.
+ */
+export class UpstreamError extends TriggerAdapterError {
+  constructor(cause: unknown) {
+    super(502, "Bad Gateway", "upstream_error", "Trigger.dev request failed", { cause });
+  }
+}
+
+export class InternalError extends TriggerAdapterError {
+  constructor(cause: unknown) {
+    super(500, "Internal Server Error", "internal_error", "Internal server error", { cause });
+  }
+}
+
+/**
+ * Turns anything thrown while handling a request into a `TriggerAdapterError`.
+ */
+export function toAdapterError(error: unknown): TriggerAdapterError {
+  return error instanceof TriggerAdapterError ? error : new InternalError(error);
+}
+
+/**
+ * Runs a call to the Trigger.dev SDK, rethrowing its failures as an
+ * `UpstreamError`.
+ */
+export async function upstream<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    throw error instanceof TriggerAdapterError ? error : new UpstreamError(error);
+  }
+}
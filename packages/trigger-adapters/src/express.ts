@@ -1,18 +1,126 @@
+import type { AnyTask } from "@trigger.dev/sdk";
 import type { Request, Response } from "express";
-import { trigger } from "./core";
+import {
+  type Executor,
+  execute,
+  executeBatch,
+  type HandlerOptions,
+  type HandlerResponse,
+  handleRun,
+  handleTrigger,
+  handleWebhook,
+  toHeaders,
+  toSearchParams,
+  type WebhookHandlerOptions,
+} from "./core";
+import { generateOpenAPI, type OpenAPIOptions } from "./openapi";
+import { writeEventStream } from "./sse";
 
-export function handler() {
+export type { HandlerOptions, RunSummary, TaskTriggerResult, TriggerResult, ValidationIssue } from "./core";
+
+export function handler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: HandlerOptions<TTasks, TPayload> = {},
+): (request: Request, response: Response) => Promise<unknown> {
+  return createHandler(options, execute);
+}
+
+/**
+ * Triggers an array body as a single batch. Mount it at `/trigger/:id/batch`.
+ */
+export function batchHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: HandlerOptions<TTasks, TPayload> = {},
+): (request: Request, response: Response) => Promise<unknown> {
+  return createHandler(options, executeBatch);
+}
+
+/**
+ * Serves the run endpoints. Mount it at `GET /runs/:runId` and
+ * `POST /runs/:runId/:action`, where the action is `cancel` or `replay`.
+ */
+export function runHandler<const TTasks extends readonly AnyTask[] = AnyTask[]>(
+  options: HandlerOptions<TTasks> = {},
+): (request: Request, response: Response) => Promise<unknown> {
   return async (request: Request, response: Response) => {
-    const task = request.params.id;
+    const { runId, action } = request.params;
+    const result = await handleRun("express", options, () => ({
+      runId: typeof runId === "string" ? runId : undefined,
+      action: typeof action === "string" ? action : undefined,
+      method: request.method,
+      headers: toHeaders(request.headers),
+      locals: response.locals,
+      ip: request.ip,
+    }));
 
-    if (!task) {
-      return response.status(400).json({ error: "Task ID is required" });
-    }
+    send(response, result);
+  };
+}
 
-    const payload = request.body;
+/**
+ * Triggers tasks from a third-party webhook. Signatures are checked against the
+ * raw body, so mount it behind `express.raw({ type: "application/json" })`
+ * rather than `express.json()`, or keep the raw body as `request.rawBody`.
+ */
+export function webhookHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: WebhookHandlerOptions<TTasks, TPayload>,
+): (request: Request, response: Response) => Promise<unknown> {
+  return async (request: Request, response: Response) => {
+    const result = await handleWebhook("express", options, () => ({
+      method: request.method,
+      headers: toHeaders(request.headers),
+      raw: (request as Request & { rawBody?: unknown }).rawBody,
+      parsed: request.body,
+      body: request,
+      locals: response.locals,
+      ip: request.ip,
+    }));
 
-    const result = await trigger(task, payload);
+    send(response, result);
+  };
+}
 
-    response.send(result);
+/**
+ * Serves the OpenAPI document describing the trigger endpoints. Mount it with
+ * `app.get("/openapi.json", openAPIHandler(options))`.
+ */
+export function openAPIHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: OpenAPIOptions<TTasks, TPayload> = {},
+): (request: Request, response: Response) => void {
+  const document = generateOpenAPI(options);
+
+  return (_request: Request, response: Response) => send(response, { status: 200, body: document });
+}
+
+function createHandler<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  run: Executor,
+): (request: Request, response: Response) => Promise<unknown> {
+  return async (request: Request, response: Response) => {
+    const { id } = request.params;
+    const result = await handleTrigger("express", options, run, () => ({
+      taskId: typeof id === "string" ? id : undefined,
+      method: request.method,
+      headers: toHeaders(request.headers),
+      query: toSearchParams(request.originalUrl),
+      params: request.params,
+      // The stream is only read when no body parser has handled the request.
+      parsed: request.body,
+      body: request,
+      locals: response.locals,
+      ip: request.ip,
+    }));
+
+    if (result.events) {
+      return writeEventStream(result.events(), response);
+    }
+
+    send(response, result);
   };
 }
+
+function send(response: Response, result: HandlerResponse) {
+  if (result.headers) {
+    response.set(result.headers);
+  }
+
+  response.status(result.status).send(result.body);
+}
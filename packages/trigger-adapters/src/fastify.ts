@@ -1,24 +1,136 @@
+import type { AnyTask } from "@trigger.dev/sdk";
 import type { FastifyReply, FastifyRequest } from "fastify";
-import { trigger } from "./core";
+import {
+  type Executor,
+  execute,
+  executeBatch,
+  type HandlerOptions,
+  type HandlerResponse,
+  handleRun,
+  handleTrigger,
+  handleWebhook,
+  toHeaders,
+  toSearchParams,
+  type WebhookHandlerOptions,
+} from "./core";
+import { generateOpenAPI, type OpenAPIOptions } from "./openapi";
+import { writeEventStream } from "./sse";
+
+export type { HandlerOptions, RunSummary, TaskTriggerResult, TriggerResult, ValidationIssue } from "./core";
 
 interface RouteParams {
   id: string;
 }
 
-export function handler() {
+interface RunRouteParams {
+  runId: string;
+  action?: string;
+}
+
+export function handler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: HandlerOptions<TTasks, TPayload> = {},
+): (request: FastifyRequest<{ Params: RouteParams }>, reply: FastifyReply) => Promise<FastifyReply> {
+  return createHandler(options, execute);
+}
+
+/**
+ * Triggers an array body as a single batch. Mount it at `/trigger/:id/batch`.
+ */
+export function batchHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: HandlerOptions<TTasks, TPayload> = {},
+): (request: FastifyRequest<{ Params: RouteParams }>, reply: FastifyReply) => Promise<FastifyReply> {
+  return createHandler(options, executeBatch);
+}
+
+/**
+ * Serves the run endpoints. Mount it at `GET /runs/:runId` and
+ * `POST /runs/:runId/:action`, where the action is `cancel` or `replay`.
+ */
+export function runHandler<const TTasks extends readonly AnyTask[] = AnyTask[]>(
+  options: HandlerOptions<TTasks> = {},
+): (request: FastifyRequest<{ Params: RunRouteParams }>, reply: FastifyReply) => Promise<FastifyReply> {
+  return async (request: FastifyRequest<{ Params: RunRouteParams }>, reply: FastifyReply) => {
+    const result = await handleRun("fastify", options, () => ({
+      runId: request.params.runId,
+      action: request.params.action,
+      method: request.method,
+      headers: toHeaders(request.headers),
+      locals: request as unknown as Record<string, unknown>,
+      ip: request.ip,
+    }));
+
+    return send(reply, result);
+  };
+}
+
+/**
+ * Triggers tasks from a third-party webhook. Signatures are checked against the
+ * raw body, so parse the route's JSON as a string with
+ * `addContentTypeParser("application/json", { parseAs: "string" }, ...)` or
+ * keep the raw body as `request.rawBody`, as `fastify-raw-body` does.
+ */
+export function webhookHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: WebhookHandlerOptions<TTasks, TPayload>,
+): (request: FastifyRequest, reply: FastifyReply) => Promise<FastifyReply> {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const result = await handleWebhook("fastify", options, () => ({
+      method: request.method,
+      headers: toHeaders(request.headers),
+      raw: (request as FastifyRequest & { rawBody?: unknown }).rawBody,
+      parsed: request.body,
+      locals: request as unknown as Record<string, unknown>,
+      ip: request.ip,
+    }));
+
+    return send(reply, result);
+  };
+}
+
+/**
+ * Serves the OpenAPI document describing the trigger endpoints. Mount it with
+ * `fastify.get("/openapi.json", openAPIHandler(options))`.
+ */
+export function openAPIHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: OpenAPIOptions<TTasks, TPayload> = {},
+): (request: FastifyRequest, reply: FastifyReply) => FastifyReply {
+  const document = generateOpenAPI(options);
+
+  return (_request: FastifyRequest, reply: FastifyReply) => send(reply, { status: 200, body: document });
+}
+
+function createHandler<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  run: Executor,
+): (request: FastifyRequest<{ Params: RouteParams }>, reply: FastifyReply) => Promise<FastifyReply> {
   return async (request: FastifyRequest<{ Params: RouteParams }>, reply: FastifyReply) => {
-    const taskId = request.params.id;
+    const result = await handleTrigger("fastify", options, run, () => ({
+      taskId: request.params.id,
+      method: request.method,
+      headers: toHeaders(request.headers),
+      query: toSearchParams(request.url),
+      params: { ...request.params },
+      // Fastify's content type parsers have always read the body by now.
+      parsed: request.body,
+      // Plugins decorate the request itself, e.g. `request.user`.
+      locals: request as unknown as Record<string, unknown>,
+      ip: request.ip,
+    }));
 
-    if (!taskId) {
-      return reply.code(400).send({ error: "Task ID is required" });
+    if (result.events) {
+      // Take over the raw response so Fastify doesn't try to send a reply of its own.
+      reply.hijack();
+      await writeEventStream(result.events(), reply.raw);
+      return reply;
     }
 
-    try {
-      const payload = request.body;
-      const result = await trigger(taskId, payload);
-      return reply.send(result);
-    } catch (_error) {
-      return reply.code(500).send({ error: "Failed to trigger task" });
-    }
+    return send(reply, result);
   };
 }
+
+function send(reply: FastifyReply, result: HandlerResponse): FastifyReply {
+  if (result.headers) {
+    reply.headers(result.headers);
+  }
+
+  return reply.code(result.status).send(result.body);
+}
@@ -0,0 +1,71 @@
+import type { AnyTask } from "@trigger.dev/sdk";
+import { execute, executeBatch, type KeyedRateLimit, requireRateLimitKey, type WebhookHandlerOptions } from "./core";
+import { generateOpenAPI, type OpenAPIOptions } from "./openapi";
+import { createRunHandler, createTriggerHandler, createWebhookHandler, type WebHandlerOptions } from "./web";
+
+export type { HandlerOptions, RunSummary, TaskTriggerResult, TriggerResult, ValidationIssue } from "./core";
+
+const NO_CLIENT_IP = "fetch handlers can't tell the client's IP";
+
+/**
+ * A fetch handler can't tell the client's IP, so `rateLimit` needs a `key`.
+ */
+export type FetchHandlerOptions<TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown> = Omit<
+  WebHandlerOptions<TTasks, TPayload>,
+  "rateLimit"
+> &
+  KeyedRateLimit<TTasks>;
+
+export function handler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: FetchHandlerOptions<TTasks, TPayload> = {},
+): (request: Request) => Promise<Response> {
+  requireRateLimitKey(options, NO_CLIENT_IP);
+
+  return createTriggerHandler("fetch", options, execute, false);
+}
+
+/**
+ * Triggers an array body as a single batch. The task ID is the path segment
+ * before a trailing `/batch`, e.g. `/api/trigger/:id/batch`.
+ */
+export function batchHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: FetchHandlerOptions<TTasks, TPayload> = {},
+): (request: Request) => Promise<Response> {
+  requireRateLimitKey(options, NO_CLIENT_IP);
+
+  return createTriggerHandler("fetch", options, executeBatch, true);
+}
+
+/**
+ * Serves the run endpoints: `GET {basePath}/:runId` and
+ * `POST {basePath}/:runId/cancel` or `/replay`.
+ */
+export function runHandler<const TTasks extends readonly AnyTask[] = AnyTask[]>(
+  options: FetchHandlerOptions<TTasks> = {},
+): (request: Request) => Promise<Response> {
+  return createRunHandler("fetch", options);
+}
+
+/**
+ * Triggers tasks from a third-party webhook, such as GitHub or Stripe. Mount it
+ * at the URL the sender delivers to.
+ */
+export function webhookHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: Omit<WebhookHandlerOptions<TTasks, TPayload>, "rateLimit"> & KeyedRateLimit<TTasks>,
+): (request: Request) => Promise<Response> {
+  requireRateLimitKey(options, NO_CLIENT_IP);
+
+  return createWebhookHandler("fetch", options);
+}
+
+/**
+ * Serves the OpenAPI document describing the trigger endpoints. Answers any
+ * request with the document, so route `GET /openapi.json` to it.
+ */
+export function openAPIHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: OpenAPIOptions<TTasks, TPayload> = {},
+): (request: Request) => Promise<Response> {
+  const document = generateOpenAPI(options);
+
+  return async () => Response.json(document);
+}
@@ -1,18 +1,157 @@
+import type { AnyTask } from "@trigger.dev/sdk";
 import type { Context } from "hono";
-import { trigger } from "./core";
+import type { GetConnInfo } from "hono/conninfo";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import {
+  type Executor,
+  execute,
+  executeBatch,
+  type HandlerOptions,
+  type HandlerResponse,
+  handleRun,
+  handleTrigger,
+  handleWebhook,
+  type KeyedRateLimit,
+  type RateLimitOptions,
+  requireRateLimitKey,
+  type WebhookHandlerOptions,
+} from "./core";
+import { generateOpenAPI, type OpenAPIOptions } from "./openapi";
+import { toEventStreamResponse } from "./sse";
 
-export function handler(): (c: Context) => Promise<Response> {
+export type { HandlerOptions, RunSummary, TaskTriggerResult, TriggerResult, ValidationIssue } from "./core";
+
+/**
+ * Hono can't tell the client's IP without the `getConnInfo` helper of your
+ * runtime, e.g. from `hono/bun` or `@hono/node-server/conninfo`, so
+ * `rateLimit` needs a `key` unless it's given.
+ */
+type ConnInfoOptions<TTasks extends readonly AnyTask[]> =
+  | { getConnInfo: GetConnInfo; rateLimit?: RateLimitOptions<TTasks> }
+  | ({ getConnInfo?: undefined } & KeyedRateLimit<TTasks>);
+
+export type HonoHandlerOptions<TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown> = Omit<
+  HandlerOptions<TTasks, TPayload>,
+  "rateLimit"
+> &
+  ConnInfoOptions<TTasks>;
+
+const NO_CLIENT_IP = "Hono can't tell the client's IP without getConnInfo";
+
+export function handler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: HonoHandlerOptions<TTasks, TPayload> = {},
+): (c: Context) => Promise<Response> {
+  return createHandler(options, execute);
+}
+
+/**
+ * Triggers an array body as a single batch. Mount it at `/trigger/:id/batch`.
+ */
+export function batchHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: HonoHandlerOptions<TTasks, TPayload> = {},
+): (c: Context) => Promise<Response> {
+  return createHandler(options, executeBatch);
+}
+
+/**
+ * Serves the run endpoints. Mount it at `GET /runs/:runId` and
+ * `POST /runs/:runId/:action`, where the action is `cancel` or `replay`.
+ */
+export function runHandler<const TTasks extends readonly AnyTask[] = AnyTask[]>(
+  options: HonoHandlerOptions<TTasks> = {},
+): (c: Context) => Promise<Response> {
   return async (c: Context) => {
-    const task = c.req.param("id");
+    const result = await handleRun("hono", options, () => ({
+      runId: c.req.param("runId"),
+      action: c.req.param("action"),
+      method: c.req.method,
+      headers: c.req.raw.headers,
+      locals: c.var as Record<string, unknown>,
+      ip: clientAddress(c, options),
+    }));
 
-    if (!task) {
-      return c.json({ error: "Task ID is required" }, 400);
-    }
+    return send(c, result);
+  };
+}
+
+/**
+ * Triggers tasks from a third-party webhook, such as GitHub or Stripe.
+ */
+export function webhookHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: Omit<WebhookHandlerOptions<TTasks, TPayload>, "rateLimit"> & ConnInfoOptions<TTasks>,
+): (c: Context) => Promise<Response> {
+  if (!options.getConnInfo) {
+    requireRateLimitKey(options, NO_CLIENT_IP);
+  }
+
+  return async (c: Context) => {
+    const result = await handleWebhook("hono", options, () => ({
+      method: c.req.method,
+      headers: c.req.raw.headers,
+      body: requestBody(c),
+      locals: c.var as Record<string, unknown>,
+      ip: clientAddress(c, options),
+    }));
+
+    return send(c, result);
+  };
+}
+
+/**
+ * Serves the OpenAPI document describing the trigger endpoints. Mount it with
+ * `app.get("/openapi.json", openAPIHandler(options))`.
+ */
+export function openAPIHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: OpenAPIOptions<TTasks, TPayload> = {},
+): (c: Context) => Response {
+  const document = generateOpenAPI(options);
+
+  return (c: Context) => send(c, { status: 200, body: document });
+}
+
+function createHandler<TTasks extends readonly AnyTask[], TPayload>(
+  options: HonoHandlerOptions<TTasks, TPayload>,
+  run: Executor,
+): (c: Context) => Promise<Response> {
+  if (!options.getConnInfo) {
+    requireRateLimitKey(options, NO_CLIENT_IP);
+  }
 
-    const payload = await c.req.json();
+  return async (c: Context) => {
+    const result = await handleTrigger("hono", options, run, () => ({
+      taskId: c.req.param("id"),
+      method: c.req.method,
+      headers: c.req.raw.headers,
+      query: new URL(c.req.raw.url).searchParams,
+      params: c.req.param(),
+      body: requestBody(c),
+      locals: c.var as Record<string, unknown>,
+      ip: clientAddress(c, options),
+    }));
 
-    const result = await trigger(task, payload);
+    if (result.events) {
+      return toEventStreamResponse(result.events());
+    }
 
-    return c.json(result);
+    return send(c, result);
   };
 }
+
+function clientAddress(
+  c: Context,
+  { getConnInfo }: { getConnInfo?: GetConnInfo },
+): (() => string | undefined) | undefined {
+  return getConnInfo && (() => getConnInfo(c).remote.address);
+}
+
+// The raw request is streamed up to the body limit, unless a middleware read it
+// already and Hono kept the body on `c.req`.
+function requestBody(c: Context): Request | Context["req"] {
+  const { raw } = c.req;
+
+  return raw.body && !raw.bodyUsed ? raw : c.req;
+}
+
+function send(c: Context, result: HandlerResponse): Response {
+  return c.json(result.body, result.status as ContentfulStatusCode, result.headers);
+}
@@ -1,4 +1,9 @@
+export * as elysia from "./elysia";
 export * as express from "./express";
 export * as fastify from "./fastify";
+export * as fetch from "./fetch";
 export * as hono from "./hono";
+export * as koa from "./koa";
+export * as nestjs from "./nestjs";
 export * as nextjs from "./nextjs";
+export * as sveltekit from "./sveltekit";
@@ -0,0 +1,133 @@
+import type { AnyTask } from "@trigger.dev/sdk";
+import type { Context, Next } from "koa";
+import {
+  type Executor,
+  execute,
+  executeBatch,
+  type HandlerOptions,
+  type HandlerResponse,
+  handleRun,
+  handleTrigger,
+  handleWebhook,
+  toHeaders,
+  type WebhookHandlerOptions,
+} from "./core";
+import { generateOpenAPI, type OpenAPIOptions } from "./openapi";
+import { writeEventStream } from "./sse";
+
+export type { HandlerOptions, RunSummary, TaskTriggerResult, TriggerResult, ValidationIssue } from "./core";
+
+/**
+ * A Koa context with the route params added by `@koa/router` and the parsed
+ * and raw bodies added by a body parser such as `koa-bodyparser`.
+ */
+export type KoaContext = Context & {
+  params?: Record<string, string | undefined>;
+  request: { body?: unknown; rawBody?: string };
+};
+
+export function handler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: HandlerOptions<TTasks, TPayload> = {},
+): (ctx: KoaContext, next?: Next) => Promise<void> {
+  return createHandler(options, execute);
+}
+
+/**
+ * Triggers an array body as a single batch. Mount it at `/trigger/:id/batch`.
+ */
+export function batchHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: HandlerOptions<TTasks, TPayload> = {},
+): (ctx: KoaContext, next?: Next) => Promise<void> {
+  return createHandler(options, executeBatch);
+}
+
+/**
+ * Serves the run endpoints. Mount it at `GET /runs/:runId` and
+ * `POST /runs/:runId/:action`, where the action is `cancel` or `replay`.
+ */
+export function runHandler<const TTasks extends readonly AnyTask[] = AnyTask[]>(
+  options: HandlerOptions<TTasks> = {},
+): (ctx: KoaContext, next?: Next) => Promise<void> {
+  return async (ctx: KoaContext) => {
+    const result = await handleRun("koa", options, () => ({
+      runId: ctx.params?.runId,
+      action: ctx.params?.action,
+      method: ctx.method,
+      headers: toHeaders(ctx.headers),
+      locals: ctx.state,
+      ip: ctx.ip,
+    }));
+
+    send(ctx, result);
+  };
+}
+
+/**
+ * Triggers tasks from a third-party webhook, checking signatures against the
+ * `ctx.request.rawBody` kept by `koa-bodyparser`.
+ */
+export function webhookHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: WebhookHandlerOptions<TTasks, TPayload>,
+): (ctx: KoaContext, next?: Next) => Promise<void> {
+  return async (ctx: KoaContext) => {
+    const result = await handleWebhook("koa", options, () => ({
+      method: ctx.method,
+      headers: toHeaders(ctx.headers),
+      raw: ctx.request.rawBody,
+      parsed: ctx.request.body,
+      body: ctx.req,
+      locals: ctx.state,
+      ip: ctx.ip,
+    }));
+
+    send(ctx, result);
+  };
+}
+
+/**
+ * Serves the OpenAPI document describing the trigger endpoints. Mount it with
+ * `router.get("/openapi.json", openAPIHandler(options))`.
+ */
+export function openAPIHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: OpenAPIOptions<TTasks, TPayload> = {},
+): (ctx: KoaContext, next?: Next) => void {
+  const document = generateOpenAPI(options);
+
+  return (ctx: KoaContext) => send(ctx, { status: 200, body: document });
+}
+
+function createHandler<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  run: Executor,
+): (ctx: KoaContext, next?: Next) => Promise<void> {
+  return async (ctx: KoaContext) => {
+    const result = await handleTrigger("koa", options, run, () => ({
+      taskId: ctx.params?.id,
+      method: ctx.method,
+      headers: toHeaders(ctx.headers),
+      query: new URLSearchParams(ctx.querystring),
+      params: ctx.params,
+      parsed: ctx.request.body,
+      body: ctx.req,
+      locals: ctx.state,
+      ip: ctx.ip,
+    }));
+
+    if (result.events) {
+      // Koa would otherwise end the response once the middleware resolves.
+      ctx.respond = false;
+      return writeEventStream(result.events(), ctx.res);
+    }
+
+    send(ctx, result);
+  };
+}
+
+function send(ctx: KoaContext, result: HandlerResponse) {
+  if (result.headers) {
+    ctx.set(result.headers);
+  }
+
+  ctx.status = result.status;
+  ctx.body = result.body;
+}
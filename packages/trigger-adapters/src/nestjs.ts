@@ -0,0 +1,195 @@
+import {
+  Body,
+  type CanActivate,
+  Controller,
+  type DynamicModule,
+  Get,
+  HttpException,
+  Inject,
+  Module,
+  Param,
+  Post,
+  Req,
+  Res,
+  type Type,
+  UseGuards,
+} from "@nestjs/common";
+import type { AnyTask } from "@trigger.dev/sdk";
+import {
+  type Executor,
+  execute,
+  executeBatch,
+  type HandlerOptions,
+  type HandlerResponse,
+  handleRun,
+  handleTrigger,
+  toHeaders,
+  toSearchParams,
+} from "./core";
+
+export type { HandlerOptions, RunSummary, TaskTriggerResult, TriggerResult, ValidationIssue } from "./core";
+
+export const TRIGGER_ADAPTERS_OPTIONS = Symbol("TRIGGER_ADAPTERS_OPTIONS");
+
+export type TriggerAdaptersModuleOptions<TTasks extends readonly AnyTask[] = AnyTask[]> = HandlerOptions<TTasks> & {
+  /**
+   * The controller path. Tasks are triggered with `POST /{path}/:id` and
+   * batches with `POST /{path}/:id/batch`. Defaults to `trigger`.
+   */
+  path?: string;
+  /**
+   * Guards applied to the trigger controller, in addition to any global guards.
+   */
+  guards?: (Type<CanActivate> | CanActivate)[];
+  /**
+   * Also serve `GET /{path}/runs/:runId` and `POST /{path}/runs/:runId/:action`
+   * to retrieve, cancel or replay runs.
+   */
+  runs?: boolean;
+};
+
+type NestRequest = {
+  method: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+  params?: Record<string, string | undefined>;
+  ip?: string;
+};
+
+// Both the Express and Fastify platforms' responses have `header()` and
+// `status().send()`, which serializes objects as JSON.
+type NestResponse = {
+  header(name: string, value: string): unknown;
+  status(code: number): { send(body: unknown): unknown };
+};
+
+// Decorators are applied by hand so consumers don't need `experimentalDecorators`
+// enabled to compile this package.
+function createTriggerController(options: TriggerAdaptersModuleOptions): Type {
+  class TriggerController {
+    constructor(private readonly options: HandlerOptions) {}
+
+    trigger(taskId: string, payload: unknown, request: NestRequest, response: NestResponse): Promise<void> {
+      return this.run(execute, taskId, payload, request, response);
+    }
+
+    batch(taskId: string, payload: unknown, request: NestRequest, response: NestResponse): Promise<void> {
+      return this.run(executeBatch, taskId, payload, request, response);
+    }
+
+    retrieveRun(runId: string, request: NestRequest, response: NestResponse): Promise<void> {
+      return this.runAction(runId, undefined, request, response);
+    }
+
+    async runAction(
+      runId: string,
+      action: string | undefined,
+      request: NestRequest,
+      response: NestResponse,
+    ): Promise<void> {
+      const result = await handleRun("nestjs", this.options, () => ({
+        runId,
+        action,
+        method: request.method,
+        headers: toHeaders(request.headers),
+        ip: request.ip,
+      }));
+
+      send(result, response);
+    }
+
+    private async run(
+      executor: Executor,
+      taskId: string,
+      payload: unknown,
+      request: NestRequest,
+      response: NestResponse,
+    ): Promise<void> {
+      const result = await handleTrigger("nestjs", this.options, executor, () => ({
+        taskId,
+        method: request.method,
+        headers: toHeaders(request.headers),
+        query: toSearchParams(request.url),
+        params: { ...request.params },
+        parsed: payload,
+        ip: request.ip,
+      }));
+
+      send(result, response);
+    }
+  }
+
+  Inject(TRIGGER_ADAPTERS_OPTIONS)(TriggerController, undefined, 0);
+  route(TriggerController, "trigger", ":id");
+  route(TriggerController, "batch", ":id/batch");
+
+  if (options.runs) {
+    runRoutes(TriggerController);
+  }
+  Controller(options.path ?? "trigger")(TriggerController);
+
+  if (options.guards?.length) {
+    UseGuards(...options.guards)(TriggerController);
+  }
+
+  return TriggerController;
+}
+
+// Errors are thrown as `HttpException`s so Nest's exception filters see them.
+// Successes are sent here rather than returned, as Nest would send a returned
+// body with the route's fixed `@HttpCode()` and the status depends on the run,
+// e.g. a 202 when a run in wait mode doesn't complete in time.
+function send(result: HandlerResponse, response: NestResponse): void {
+  for (const [name, value] of Object.entries(result.headers ?? {})) {
+    response.header(name, value);
+  }
+
+  if (result.status >= 400) {
+    throw new HttpException(result.body as Record<string, unknown>, result.status);
+  }
+
+  response.status(result.status).send(result.body);
+}
+
+function route(controller: Type, method: string, path: string) {
+  const { prototype } = controller;
+  const descriptor = Object.getOwnPropertyDescriptor(prototype, method) as PropertyDescriptor;
+
+  Param("id")(prototype, method, 0);
+  Body()(prototype, method, 1);
+  Req()(prototype, method, 2);
+  Res()(prototype, method, 3);
+  Post(path)(prototype, method, descriptor);
+}
+
+function runRoutes(controller: Type) {
+  const { prototype } = controller;
+  const retrieve = Object.getOwnPropertyDescriptor(prototype, "retrieveRun") as PropertyDescriptor;
+  const action = Object.getOwnPropertyDescriptor(prototype, "runAction") as PropertyDescriptor;
+
+  Param("runId")(prototype, "retrieveRun", 0);
+  Req()(prototype, "retrieveRun", 1);
+  Res()(prototype, "retrieveRun", 2);
+  Get("runs/:runId")(prototype, "retrieveRun", retrieve);
+
+  Param("runId")(prototype, "runAction", 0);
+  Param("action")(prototype, "runAction", 1);
+  Req()(prototype, "runAction", 2);
+  Res()(prototype, "runAction", 3);
+  Post("runs/:runId/:action")(prototype, "runAction", action);
+}
+
+// biome-ignore lint/complexity/noStaticOnlyClass: Nest modules are declared as classes
+export class TriggerAdaptersModule {
+  static forRoot<const TTasks extends readonly AnyTask[] = AnyTask[]>(
+    options: TriggerAdaptersModuleOptions<TTasks> = {},
+  ): DynamicModule {
+    return {
+      module: TriggerAdaptersModule,
+      controllers: [createTriggerController(options as TriggerAdaptersModuleOptions)],
+      providers: [{ provide: TRIGGER_ADAPTERS_OPTIONS, useValue: options }],
+    };
+  }
+}
+
+Module({})(TriggerAdaptersModule);
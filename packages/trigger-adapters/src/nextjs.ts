@@ -1,43 +1,270 @@
+import type { AnyTask, TaskIdentifier, TaskPayload } from "@trigger.dev/sdk";
+// Only types come from `next`, so loading this module for the App Router
+// doesn't pull in the Node.js-only parts of Next.js.
 import type { NextApiRequest, NextApiResponse } from "next";
-import { NextResponse } from "next/server";
-import { trigger } from "./core";
+import {
+  type Executor,
+  execute,
+  executeBatch,
+  type HandlerOptions,
+  type HandlerResponse,
+  handleRun,
+  handleTrigger,
+  handleWebhook,
+  type KeyedRateLimit,
+  requireRateLimitKey,
+  type TriggerResult,
+  toHeaders,
+  toSearchParams,
+  type WebhookHandlerOptions,
+} from "./core";
+import type { ProblemDetails } from "./errors";
+import { generateOpenAPI, type OpenAPIOptions } from "./openapi";
+import { writeEventStream } from "./sse";
+import { createRunHandler, createTriggerHandler, createWebhookHandler, type RouteContext } from "./web";
 
+export type { HandlerOptions, RunSummary, TaskTriggerResult, TriggerResult, ValidationIssue } from "./core";
+export type { ProblemDetails, RouteContext };
+
+const NO_CLIENT_IP = "the App Router can't tell the client's IP";
+
+/**
+ * The App Router can't tell the client's IP, so `rateLimit` needs a `key`. In
+ * the Pages Router, the IP is passed to it as `ip`.
+ */
+export type NextjsHandlerOptions<TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown> = Omit<
+  HandlerOptions<TTasks, TPayload>,
+  "rateLimit"
+> &
+  KeyedRateLimit<TTasks>;
+
+/**
+ * The App Router handlers read the task ID from the `id` route param, e.g.
+ * `app/api/trigger/[id]/route.ts`, or the last segment of an `[...id]`
+ * catch-all. Without an `id` param they fall back to the last path segment.
+ */
 export type NextjsHandler = {
-  POST: (request: Request) => Promise<NextResponse>;
+  POST: (request: Request, context?: RouteContext) => Promise<Response>;
+  /**
+   * Answers with a 405 unless `body.types` includes `"query"`.
+   */
+  GET: (request: Request, context?: RouteContext) => Promise<Response>;
   handle: (request: NextApiRequest, response: NextApiResponse) => Promise<void>;
 };
 
-export function handler(): NextjsHandler {
+export function handler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: NextjsHandlerOptions<TTasks, TPayload> = {},
+): NextjsHandler {
+  requireRateLimitKey(options, NO_CLIENT_IP);
+
+  const serve = createTriggerHandler("nextjs", options, execute, false);
+
   return {
-    POST: async (request: Request) => {
-      const taskId = request.url.split("/").pop();
+    POST: serve,
+    GET: serve,
+    handle: createPagesHandler(options, execute),
+  };
+}
 
-      if (!taskId) {
-        return NextResponse.json({ error: "Task ID is required" }, { status: 400 });
-      }
+/**
+ * Triggers an array body as a single batch. Use it from
+ * `app/api/trigger/[id]/batch/route.ts` or `pages/api/trigger/[id]/batch.ts`.
+ */
+export function batchHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: NextjsHandlerOptions<TTasks, TPayload> = {},
+): NextjsHandler {
+  requireRateLimitKey(options, NO_CLIENT_IP);
 
-      const payload = await request.json();
+  const serve = createTriggerHandler("nextjs", options, executeBatch, true);
 
-      const response = await trigger(taskId, payload);
+  return {
+    POST: serve,
+    GET: serve,
+    handle: createPagesHandler(options, executeBatch),
+  };
+}
 
-      return NextResponse.json(response);
-    },
+export type NextjsRunHandler = {
+  GET: (request: Request, context?: RouteContext) => Promise<Response>;
+  POST: (request: Request, context?: RouteContext) => Promise<Response>;
+  handle: (request: NextApiRequest, response: NextApiResponse) => Promise<void>;
+};
+
+/**
+ * Serves the run endpoints. Use `GET` from `app/api/runs/[runId]/route.ts` and
+ * `POST` from `app/api/runs/[runId]/[action]/route.ts`, or `handle` from the
+ * matching `pages/api/runs` routes.
+ */
+export function runHandler<const TTasks extends readonly AnyTask[] = AnyTask[]>(
+  options: NextjsHandlerOptions<TTasks> = {},
+): NextjsRunHandler {
+  const serve = createRunHandler("nextjs", options);
+
+  return {
+    GET: serve,
+    POST: serve,
     handle: async (request: NextApiRequest, response: NextApiResponse): Promise<void> => {
-      if (request.method !== "POST") {
-        return response.status(405).json({ error: "Method not allowed" });
-      }
+      const { runId, action } = request.query;
+      const result = await handleRun("nextjs", options, () => ({
+        runId: typeof runId === "string" ? runId : undefined,
+        action: typeof action === "string" ? action : undefined,
+        method: request.method,
+        headers: toHeaders(request.headers),
+        ip: request.socket?.remoteAddress,
+      }));
+
+      send(response, result);
+    },
+  };
+}
+
+export type TriggerActionResult<Payload = unknown, TaskId extends string = string> =
+  | { ok: true; result: TriggerResult<Payload, TaskId> }
+  | { ok: false; problem: ProblemDetails };
+
+// Falls back to `AnyTask` when the tasks aren't known, e.g. without `tasks`.
+type TaskById<TTasks extends readonly AnyTask[], TaskId> = [Extract<TTasks[number], { id: TaskId }>] extends [never]
+  ? TTasks[number]
+  : Extract<TTasks[number], { id: TaskId }>;
+
+export type TriggerAction<TTasks extends readonly AnyTask[] = AnyTask[]> = <
+  TaskId extends TaskIdentifier<TTasks[number]>,
+>(
+  taskId: TaskId,
+  input: TaskPayload<TaskById<TTasks, TaskId>> | FormData,
+) => Promise<TriggerActionResult<TaskPayload<TaskById<TTasks, TaskId>>, TaskId>>;
+
+/**
+ * Creates a Server Action that triggers tasks with the same options as
+ * `handler`, so authorization, schemas and hooks apply to forms as well:
+ *
+ * ```ts
+ * "use server";
+ * import { sendEmail } from "@/trigger/send-email";
+ *
+ * export const triggerTask = createTriggerAction({ tasks: [sendEmail] });
+ * ```
+ *
+ * `input` is the payload, or a `FormData` read like a `multipart/form-data`
+ * body, which `body.types` has to accept. Bind the task ID for a form's
+ * `action`, e.g. `triggerTask.bind(null, "send-email")`. Failures resolve with
+ * their problem details rather than throwing, as Next.js hides the messages of
+ * errors thrown from actions in production. A run that fails in wait mode
+ * isn't a failure of the action: it resolves with `ok: true` and the failed
+ * `run`. `result` is the whole `TriggerResult` whatever `serializeResult` is.
+ * Actions have no client IP, so `rateLimit` needs a `key`.
+ */
+export function createTriggerAction<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: NextjsHandlerOptions<TTasks, TPayload> = {},
+): TriggerAction<TTasks> {
+  requireRateLimitKey(options, "Server Actions can't tell the client's IP");
 
-      const { id: taskId } = request.query;
+  return async <TaskId extends TaskIdentifier<TTasks[number]>>(taskId: TaskId, input: unknown) => {
+    // `serializeResult` shapes HTTP responses, not what the action returns.
+    const result = await handleTrigger("nextjs", { ...options, serializeResult: undefined }, execute, async () => {
+      const { headers: requestHeaders } = await import("next/headers");
+      const headers = new Headers(await requestHeaders());
 
-      if (!taskId || typeof taskId !== "string") {
-        return response.status(400).json({ error: "Task ID is required" });
+      // The action's own request body is Next.js's encoding of the arguments.
+      headers.delete("content-length");
+
+      if (input instanceof FormData) {
+        headers.set("content-type", "multipart/form-data");
+
+        return { taskId, method: "POST", headers, body: { formData: async () => input, text: async () => "" } };
       }
 
-      const payload = request.body;
+      headers.set("content-type", "application/json");
 
-      const result = await trigger(taskId, payload);
+      return { taskId, method: "POST", headers, parsed: input ?? {} };
+    });
 
-      response.status(200).json(result);
+    // Runs that failed in wait mode are answered with a 500 too, but with their
+    // result, while every failure of the action itself is problem details.
+    if (!isTriggerResult(result.body)) {
+      return { ok: false, problem: result.body as ProblemDetails };
+    }
+
+    return { ok: true, result: result.body as TriggerResult<TaskPayload<TaskById<TTasks, TaskId>>, TaskId> };
+  };
+}
+
+function isTriggerResult(body: unknown): body is TriggerResult {
+  return typeof body === "object" && body !== null && "handle" in body;
+}
+
+/**
+ * Triggers tasks from a third-party webhook. In the Pages Router, turn off the
+ * body parser for the route with `export const config = { api: { bodyParser: false } }`
+ * so the signature can be checked against the raw body.
+ */
+export function webhookHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: Omit<WebhookHandlerOptions<TTasks, TPayload>, "rateLimit"> & KeyedRateLimit<TTasks>,
+): Omit<NextjsHandler, "GET"> {
+  requireRateLimitKey(options, NO_CLIENT_IP);
+
+  return {
+    POST: createWebhookHandler("nextjs", options),
+    handle: async (request: NextApiRequest, response: NextApiResponse): Promise<void> => {
+      const result = await handleWebhook("nextjs", options, () => ({
+        method: request.method,
+        headers: toHeaders(request.headers),
+        // The stream is left unread when the API route's body parser is off.
+        parsed: request.body,
+        body: request,
+        ip: request.socket?.remoteAddress,
+      }));
+
+      send(response, result);
     },
   };
 }
+
+/**
+ * Serves the OpenAPI document describing the trigger endpoints. Use `GET` from
+ * `app/openapi.json/route.ts`, or `handle` from `pages/api/openapi.json.ts`.
+ */
+export function openAPIHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: OpenAPIOptions<TTasks, TPayload> = {},
+): Pick<NextjsHandler, "GET" | "handle"> {
+  const document = generateOpenAPI(options);
+
+  return {
+    GET: async () => Response.json(document),
+    handle: async (_request: NextApiRequest, response: NextApiResponse) =>
+      send(response, { status: 200, body: document }),
+  };
+}
+
+function createPagesHandler<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  run: Executor,
+): NextjsHandler["handle"] {
+  return async (request: NextApiRequest, response: NextApiResponse): Promise<void> => {
+    const { id } = request.query;
+    const result = await handleTrigger("nextjs", options, run, () => ({
+      taskId: typeof id === "string" ? id : undefined,
+      method: request.method,
+      headers: toHeaders(request.headers),
+      query: toSearchParams(request.url),
+      // The stream is left unread when the API route's body parser is off.
+      parsed: request.body,
+      body: request,
+      ip: request.socket?.remoteAddress,
+    }));
+
+    if (result.events) {
+      return writeEventStream(result.events(), response);
+    }
+
+    send(response, result);
+  };
+}
+
+function send(response: NextApiResponse, result: HandlerResponse) {
+  for (const [name, value] of Object.entries(result.headers ?? {})) {
+    response.setHeader(name, value);
+  }
+
+  response.status(result.status).json(result.body);
+}
@@ -0,0 +1,525 @@
+import type { AnyTask } from "@trigger.dev/sdk";
+import type { BodyType } from "./body";
+import type { HandlerOptions } from "./core";
+import { PROBLEM_CONTENT_TYPE } from "./errors";
+import type { StandardJSONSchemaV1, StandardSchemaV1 } from "./standard-schema";
+import { TRIGGER_OPTION_HEADERS } from "./trigger-options";
+
+export type JSONSchema = Record<string, unknown>;
+
+export type OpenAPIDocument = {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  paths: Record<string, Record<string, unknown>>;
+  components: { schemas: Record<string, JSONSchema> };
+};
+
+export type OpenAPIOptions<TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown> = HandlerOptions<
+  TTasks,
+  TPayload
+> & {
+  info?: Partial<OpenAPIDocument["info"]>;
+  servers?: OpenAPIDocument["servers"];
+  /**
+   * Where `handler()` is mounted. Defaults to `/trigger`.
+   */
+  basePath?: string;
+  /**
+   * Also describe the `batchHandler()` routes at `{basePath}/{id}/batch`.
+   */
+  batch?: boolean;
+  /**
+   * Where `runHandler()` is mounted, to describe the run endpoints as well.
+   */
+  runsPath?: string;
+  /**
+   * Converts a payload schema to JSON Schema. Only needed for validators that
+   * don't implement Standard JSON Schema; payloads without a JSON Schema are
+   * described as any value.
+   */
+  toJSONSchema?: (schema: StandardSchemaV1, taskId: string) => JSONSchema | undefined;
+};
+
+type Schemas = { input: JSONSchema; output: JSONSchema; validated: boolean };
+
+const MEDIA_TYPES: Record<Exclude<BodyType, "query">, string> = {
+  json: "application/json",
+  form: "application/x-www-form-urlencoded",
+  multipart: "multipart/form-data",
+  text: "text/plain",
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+/**
+ * Describes the endpoints `handler()` serves with `options` as an OpenAPI 3.1
+ * document: an operation per task with its payload schema, the result and the
+ * problem details each error is answered with. Pass the same options as the
+ * handler so the document matches what it accepts.
+ */
+export function generateOpenAPI<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  openAPIOptions: OpenAPIOptions<TTasks, TPayload> = {},
+): OpenAPIDocument {
+  // Only the shape of the options matters from here on, not the task types.
+  const options = openAPIOptions as OpenAPIOptions;
+  const basePath = trimSlashes(options.basePath ?? "/trigger");
+  const taskIds = options.tasks?.map((task) => task.id) ?? Object.keys(options.schemas ?? {});
+  const paths: OpenAPIDocument["paths"] = {};
+
+  // Without a list of tasks, any task ID is accepted.
+  const targets = taskIds.length > 0 ? taskIds : [undefined];
+
+  for (const taskId of targets) {
+    const path = `${basePath}/${taskId === undefined ? "{id}" : encodeURIComponent(taskId)}`;
+    const schemas = toPayloadSchemas(options, taskId);
+
+    paths[path] = triggerPath(options, taskId, schemas);
+
+    if (options.batch) {
+      paths[`${path}/batch`] = { post: batchOperation(options, taskId, schemas) };
+    }
+  }
+
+  if (options.runsPath !== undefined) {
+    Object.assign(paths, runPaths(options, trimSlashes(options.runsPath)));
+  }
+
+  uniqueOperationIds(paths);
+
+  return {
+    openapi: "3.1.0",
+    info: { title: "Trigger API", version: "1.0.0", ...options.info },
+    ...(options.servers && { servers: options.servers }),
+    paths,
+    components: { schemas: COMPONENTS },
+  };
+}
+
+function triggerPath(options: OpenAPIOptions, taskId: string | undefined, schemas: Schemas) {
+  const post = triggerOperation(options, taskId, schemas);
+
+  if (!(options.body?.types ?? ["json"]).includes("query")) {
+    return { post };
+  }
+
+  const { requestBody: _, ...operation } = post;
+
+  return {
+    post,
+    get: {
+      ...operation,
+      operationId: `${post.operationId}FromQuery`,
+      summary: `${post.summary} from the query string`,
+      parameters: [...post.parameters, ...toQueryParameters(schemas.input)],
+    },
+  };
+}
+
+function triggerOperation(options: OpenAPIOptions, taskId: string | undefined, schemas: Schemas) {
+  const result = toResultSchema(options, taskId, schemas, false);
+  const success: Record<string, unknown> = { "application/json": { schema: result } };
+
+  if (options.stream) {
+    success["text/event-stream"] = { schema: { type: "string" } };
+  }
+
+  return {
+    operationId: operationId("trigger", taskId),
+    summary: summary("Trigger", taskId),
+    parameters: [
+      ...(taskId === undefined ? [TASK_ID_PARAMETER] : []),
+      {
+        name: "Idempotency-Key",
+        in: "header",
+        description: "Returns the original run when retried with the same key.",
+        schema: { type: "string" },
+      },
+      {
+        name: "X-Trigger-Mode",
+        in: "header",
+        description: "`wait` answers with the completed run instead of the run handle.",
+        schema: { type: "string", enum: ["async", "wait"] },
+      },
+      ...toOptionParameters(options),
+    ],
+    requestBody: toRequestBody(options, schemas.input),
+    responses: {
+      [options.successStatus ?? 200]: {
+        description: "The task was triggered.",
+        ...(options.location && { headers: { Location: { schema: { type: "string" } } } }),
+        content: success,
+      },
+      202: {
+        description: "In wait mode, the run didn't complete in time. Follow it at `statusUrl`.",
+        content: { "application/json": { schema: result } },
+      },
+      409: runOutcome("In wait mode, the run was canceled.", result),
+      410: runOutcome("In wait mode, the run expired before it started.", result),
+      504: runOutcome("In wait mode, the run timed out.", result),
+      ...errorResponses(options, taskId, schemas, false),
+      500: {
+        description: "The request failed, or in wait mode the run failed.",
+        content: {
+          "application/json": { schema: result },
+          [PROBLEM_CONTENT_TYPE]: { schema: ref("Problem") },
+        },
+      },
+    },
+  };
+}
+
+function batchOperation(options: OpenAPIOptions, taskId: string | undefined, schemas: Schemas) {
+  const items = { type: "array", minItems: 1, items: schemas.input };
+
+  return {
+    operationId: operationId("batchTrigger", taskId),
+    summary: summary("Batch trigger", taskId),
+    parameters: [...(taskId === undefined ? [TASK_ID_PARAMETER] : []), ...toOptionParameters(options)],
+    requestBody: toRequestBody({ ...options, body: { types: ["json"] } }, items),
+    responses: {
+      [options.successStatus ?? 200]: {
+        description: "The valid items were triggered as a batch. `items` reports each item's validation.",
+        content: { "application/json": { schema: toResultSchema(options, taskId, schemas, true) } },
+      },
+      ...errorResponses(options, taskId, schemas, true),
+      500: problemResponse("Internal error."),
+    },
+  };
+}
+
+function runPaths(options: OpenAPIOptions, runsPath: string) {
+  const responses = {
+    200: { description: "The run.", content: { "application/json": { schema: ref("RunSummary") } } },
+    ...(options.authorize && {
+      401: problemResponse("Missing or invalid credentials."),
+      403: problemResponse("`authorize` rejected the request."),
+    }),
+    404: problemResponse("`run_not_found`: the run doesn't exist, or its task isn't exposed."),
+    500: problemResponse("Internal error."),
+    502: problemResponse("`upstream_error`: the Trigger.dev API request failed."),
+  };
+  const runId = { name: "runId", in: "path", required: true, schema: { type: "string" } };
+
+  return {
+    [`${runsPath}/{runId}`]: {
+      get: { operationId: "retrieveRun", summary: "Retrieve a run", parameters: [runId], responses },
+    },
+    [`${runsPath}/{runId}/{action}`]: {
+      post: {
+        operationId: "updateRun",
+        summary: "Cancel or replay a run",
+        parameters: [runId, { name: "action", in: "path", required: true, schema: { enum: ["cancel", "replay"] } }],
+        responses: { ...responses, 200: { ...responses[200], description: "The canceled run, or the replay." } },
+      },
+    },
+  };
+}
+
+/**
+ * The problem details responses the trigger routes can answer with, given the
+ * options that produce them.
+ */
+function errorResponses(options: OpenAPIOptions, taskId: string | undefined, schemas: Schemas, batch: boolean) {
+  const codes = ["malformed_body", "invalid_trigger_option"];
+
+  if (taskId === undefined) {
+    codes.unshift("missing_task_id");
+  }
+
+  if (!batch) {
+    codes.push("invalid_trigger_mode");
+
+    if (options.body?.types?.includes("multipart") && !options.body.upload) {
+      codes.push("upload_not_supported");
+    }
+  }
+
+  return {
+    400: problemResponse(codes.map((code) => `\`${code}\``).join(", ")),
+    ...(options.authorize && {
+      401: problemResponse("Missing or invalid credentials."),
+      403: problemResponse("`authorize` rejected the request."),
+    }),
+    ...(taskId === undefined && options.tasks && { 404: problemResponse("`task_not_found`: the task isn't exposed.") }),
+    413: problemResponse("`payload_too_large`: the body is over the size limit."),
+    415: {
+      ...problemResponse("`unsupported_media_type`: the content type isn't accepted."),
+      headers: { "Accept-Post": { schema: { type: "string" } } },
+    },
+    ...(schemas.validated && {
+      422: problemResponse("`invalid_payload`: the payload failed the task's schema.", ref("ValidationProblem")),
+    }),
+    ...(options.rateLimit && {
+      429: {
+        ...problemResponse("`rate_limited`: too many requests."),
+        headers: { "Retry-After": { schema: { type: "integer" } } },
+      },
+    }),
+    502: problemResponse("`upstream_error`: the Trigger.dev API request failed."),
+  };
+}
+
+function problemResponse(description: string, schema: JSONSchema = ref("Problem")) {
+  return { description, content: { [PROBLEM_CONTENT_TYPE]: { schema } } };
+}
+
+function runOutcome(description: string, result: JSONSchema) {
+  return { description, content: { "application/json": { schema: result } } };
+}
+
+function toRequestBody(options: OpenAPIOptions, payload: JSONSchema) {
+  const schema = options.envelope
+    ? {
+        type: "object",
+        required: ["payload"],
+        properties: { payload, options: toClientOptionsSchema(options) },
+      }
+    : payload;
+  const content: Record<string, { schema: JSONSchema }> = {};
+
+  for (const type of options.body?.types ?? ["json"]) {
+    if (type !== "query") {
+      content[MEDIA_TYPES[type]] = { schema: type === "text" && !options.envelope ? { type: "string" } : schema };
+    }
+  }
+
+  return { required: true, content };
+}
+
+function toResultSchema(options: OpenAPIOptions, taskId: string | undefined, schemas: Schemas, batch: boolean) {
+  const serializer = options.serializeResult ?? "full";
+
+  if (typeof serializer === "function") {
+    return { description: "Built by `serializeResult`." };
+  }
+
+  const outcome = batch
+    ? { items: { type: "array", items: ref("BatchItemResult") } }
+    : {
+        idempotency: ref("Idempotency"),
+        run: ref("RunSummary"),
+        statusUrl: { type: "string", description: "Where to follow the run, in wait mode." },
+      };
+
+  if (serializer === "minimal") {
+    const id = batch ? "batchId" : "runId";
+
+    return { type: "object", required: [id], properties: { [id]: { type: "string" }, ...outcome } };
+  }
+
+  const handle = ref(batch ? "BatchHandle" : "RunHandle");
+
+  if (serializer === "handle") {
+    return { type: "object", required: ["handle"], properties: { handle, ...outcome } };
+  }
+
+  return {
+    type: "object",
+    required: ["taskId", batch ? "payloads" : "payload", "handle"],
+    properties: {
+      taskId: taskId === undefined ? { type: "string" } : { const: taskId },
+      ...(batch ? { payloads: { type: "array", items: schemas.output } } : { payload: schemas.output }),
+      options: ref("TriggerOptions"),
+      handle,
+      ...outcome,
+    },
+  };
+}
+
+/**
+ * Converts the task's schema to JSON Schema. The request body is only
+ * described by it when `mapPayload` isn't set, since the schema validates
+ * whatever `mapPayload` returns.
+ */
+function toPayloadSchemas(options: OpenAPIOptions, taskId: string | undefined): Schemas {
+  const schema = taskId === undefined ? undefined : (options.schemas as Record<string, StandardSchemaV1>)?.[taskId];
+
+  if (!schema || taskId === undefined) {
+    return { input: {}, output: {}, validated: Boolean(options.schemas && taskId === undefined) };
+  }
+
+  const custom = options.toJSONSchema?.(schema, taskId);
+  const converter = (schema as Partial<StandardJSONSchemaV1>)["~standard"]?.jsonSchema;
+  const input = custom ?? converter?.input({ target: "draft-2020-12" }) ?? {};
+  const output = custom ?? converter?.output({ target: "draft-2020-12" }) ?? {};
+
+  return { input: options.mapPayload ? {} : stripDialect(input), output: stripDialect(output), validated: true };
+}
+
+function stripDialect({ $schema: _, ...schema }: JSONSchema): JSONSchema {
+  return schema;
+}
+
+function toQueryParameters(schema: JSONSchema) {
+  const properties = schema.properties as Record<string, JSONSchema> | undefined;
+
+  if (!properties) {
+    return [{ name: "payload", in: "query", style: "form", explode: true, schema: { type: "object" } }];
+  }
+
+  const required = new Set((schema.required as string[] | undefined) ?? []);
+
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: "query",
+    required: required.has(name),
+    schema: property,
+  }));
+}
+
+function toOptionParameters(options: OpenAPIOptions) {
+  return (options.clientOptions ?? []).map((name) => ({
+    name: TRIGGER_OPTION_HEADERS[name],
+    in: "header",
+    description: `Sets the run's \`${name}\` trigger option.`,
+    schema: { type: "string" },
+  }));
+}
+
+function toClientOptionsSchema(options: OpenAPIOptions): JSONSchema {
+  const properties = Object.fromEntries((options.clientOptions ?? []).map((name) => [name, OPTION_SCHEMAS[name]]));
+
+  return { type: "object", properties, additionalProperties: false };
+}
+
+const OPTION_SCHEMAS: Record<keyof typeof TRIGGER_OPTION_HEADERS, JSONSchema> = {
+  delay: { type: "string", description: "A duration such as `1h`, or a date." },
+  ttl: { type: ["string", "integer"], description: "A duration such as `10m`, or seconds." },
+  tags: { type: "array", items: { type: "string" } },
+  queue: { type: "string" },
+  concurrencyKey: { type: "string" },
+};
+
+const TASK_ID_PARAMETER = { name: "id", in: "path", required: true, schema: { type: "string" } };
+
+const COMPONENTS: Record<string, JSONSchema> = {
+  Problem: {
+    type: "object",
+    description: "RFC 9457 problem details. `code` tells the errors apart.",
+    required: ["type", "title", "status", "code"],
+    properties: {
+      type: { type: "string" },
+      title: { type: "string" },
+      status: { type: "integer" },
+      detail: { type: "string" },
+      code: { type: "string" },
+    },
+  },
+  ValidationProblem: {
+    allOf: [
+      ref("Problem"),
+      {
+        type: "object",
+        properties: {
+          issues: { type: "array", items: ref("ValidationIssue") },
+          items: { type: "array", items: ref("BatchItemResult") },
+        },
+      },
+    ],
+  },
+  ValidationIssue: {
+    type: "object",
+    required: ["message", "path"],
+    properties: {
+      message: { type: "string" },
+      path: { type: "array", items: { type: ["string", "integer"] } },
+    },
+  },
+  BatchItemResult: {
+    type: "object",
+    required: ["index", "ok"],
+    properties: {
+      index: { type: "integer" },
+      ok: { type: "boolean" },
+      runId: { type: "string" },
+      issues: { type: "array", items: ref("ValidationIssue") },
+    },
+  },
+  RunHandle: {
+    type: "object",
+    required: ["id", "publicAccessToken"],
+    properties: {
+      id: { type: "string" },
+      publicAccessToken: { type: "string" },
+      taskIdentifier: { type: "string" },
+    },
+  },
+  BatchHandle: {
+    type: "object",
+    required: ["batchId", "runCount", "publicAccessToken"],
+    properties: {
+      batchId: { type: "string" },
+      runCount: { type: "integer" },
+      publicAccessToken: { type: "string" },
+    },
+  },
+  Idempotency: {
+    type: "object",
+    required: ["key", "created"],
+    properties: {
+      key: { type: "string" },
+      created: { type: "boolean", description: "`false` when an existing run was returned for the key." },
+    },
+  },
+  TriggerOptions: { type: "object", description: "The options the run was triggered with." },
+  RunSummary: {
+    type: "object",
+    required: ["id", "taskId", "status", "createdAt", "updatedAt"],
+    properties: {
+      id: { type: "string" },
+      taskId: { type: "string" },
+      status: { type: "string" },
+      createdAt: { type: "string", format: "date-time" },
+      updatedAt: { type: "string", format: "date-time" },
+      startedAt: { type: "string", format: "date-time" },
+      finishedAt: { type: "string", format: "date-time" },
+      output: {},
+      error: {
+        type: "object",
+        required: ["message"],
+        properties: { name: { type: "string" }, message: { type: "string" } },
+      },
+    },
+  },
+};
+
+function operationId(prefix: string, taskId: string | undefined): string {
+  if (taskId === undefined) {
+    return `${prefix}Task`;
+  }
+
+  const words = taskId.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+
+  return prefix + words.map((word) => word[0].toUpperCase() + word.slice(1)).join("");
+}
+
+/**
+ * Numbers operation IDs that are taken already, as task IDs differing only in
+ * punctuation or case (`send-email` and `send_email`) map to the same one and
+ * OpenAPI requires them to be unique.
+ */
+function uniqueOperationIds(paths: OpenAPIDocument["paths"]): void {
+  const taken = new Set<string>();
+
+  for (const path of Object.values(paths)) {
+    for (const operation of Object.values(path) as { operationId: string }[]) {
+      let id = operation.operationId;
+
+      for (let n = 2; taken.has(id); n++) {
+        id = `${operation.operationId}${n}`;
+      }
+
+      taken.add(id);
+      operation.operationId = id;
+    }
+  }
+}
+
+function summary(verb: string, taskId: string | undefined): string {
+  return taskId === undefined ? `${verb} a task` : `${verb} ${taskId}`;
+}
+
+function trimSlashes(path: string): string {
+  return path.replace(/\/+$/, "");
+}
@@ -0,0 +1,89 @@
+/**
+ * How many requests are allowed in a sliding window of `window` milliseconds.
+ */
+export type RateLimitRule = {
+  limit: number;
+  window: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  /**
+   * Milliseconds until the oldest request in the window expires and frees up
+   * a slot.
+   */
+  reset: number;
+};
+
+/**
+ * Where request counts are kept. Implement it over Redis or similar to share
+ * limits between instances.
+ */
+export type RateLimitStore = {
+  /**
+   * Records a request for `key` unless it's over the limit, and reports what's
+   * left of the window.
+   */
+  consume(key: string, rule: RateLimitRule): RateLimitResult | Promise<RateLimitResult>;
+};
+
+/**
+ * A sliding-window log kept in memory, so limits are per process and reset on
+ * restart. Keys nobody has used for a whole window are dropped as it goes.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const hits = new Map<string, number[]>();
+  let lastSweep = Date.now();
+  let longestWindow = 0;
+
+  const sweep = (now: number) => {
+    for (const [key, times] of hits) {
+      if (times[times.length - 1] <= now - longestWindow) {
+        hits.delete(key);
+      }
+    }
+
+    lastSweep = now;
+  };
+
+  return {
+    consume(key, { limit, window }) {
+      const now = Date.now();
+      longestWindow = Math.max(longestWindow, window);
+
+      if (now - lastSweep > longestWindow) {
+        sweep(now);
+      }
+
+      const times = (hits.get(key) ?? []).filter((time) => time > now - window);
+      const allowed = times.length < limit;
+
+      if (allowed) {
+        times.push(now);
+      }
+
+      if (times.length > 0) {
+        hits.set(key, times);
+      }
+
+      return {
+        allowed,
+        remaining: Math.max(0, limit - times.length),
+        reset: times.length > 0 ? times[0] + window - now : window,
+      };
+    },
+  };
+}
+
+/**
+ * The `RateLimit-*` headers from the IETF rate limit draft, with times in
+ * whole seconds.
+ */
+export function toRateLimitHeaders(rule: RateLimitRule, result: RateLimitResult): Record<string, string> {
+  return {
+    "RateLimit-Limit": String(rule.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(Math.ceil(result.reset / 1000)),
+  };
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import type { AnyTask, TaskIdentifier, TaskPayload } from "@trigger.dev/sdk";
+import { createContext, createElement, type ReactNode, useContext, useMemo, useSyncExternalStore } from "react";
+import type { TriggerClient, TriggerRequestOptions } from "./client";
+import type { RunSummary, TaskTriggerResult } from "./core";
+
+export type TriggerTaskState<TTask extends AnyTask = AnyTask> = {
+  isSubmitting: boolean;
+  result?: TaskTriggerResult<TTask>;
+  error?: Error;
+};
+
+export type TaskTrigger<TTask extends AnyTask = AnyTask> = {
+  getSnapshot(): TriggerTaskState<TTask>;
+  subscribe(listener: () => void): () => void;
+  /**
+   * Triggers the task. Resolves with the result, or with `undefined` when it
+   * fails and the error is left in the state, so it's safe to call from an
+   * event handler without catching.
+   */
+  submit(payload: TaskPayload<TTask>, options?: TriggerRequestOptions): Promise<TaskTriggerResult<TTask> | undefined>;
+  /**
+   * Like `submit()`, but rejects with the error as well.
+   */
+  submitAsync(payload: TaskPayload<TTask>, options?: TriggerRequestOptions): Promise<TaskTriggerResult<TTask>>;
+  reset(): void;
+};
+
+export type RunState = {
+  run?: RunSummary;
+  error?: Error;
+  isLoading: boolean;
+  /**
+   * Whether the run reached a final status, after which it isn't polled again.
+   */
+  isCompleted: boolean;
+};
+
+export type RunWatcherOptions = {
+  /**
+   * How often to poll the run endpoint while the run is going, in
+   * milliseconds. Defaults to 1000.
+   */
+  interval?: number;
+};
+
+export type RunWatcher = {
+  getSnapshot(): RunState;
+  /**
+   * Polling starts with the first listener and stops once the last one
+   * unsubscribes.
+   */
+  subscribe(listener: () => void): () => void;
+};
+
+const FINAL_STATUSES = new Set([
+  "COMPLETED",
+  "CANCELED",
+  "FAILED",
+  "CRASHED",
+  "SYSTEM_FAILURE",
+  "EXPIRED",
+  "TIMED_OUT",
+]);
+
+/**
+ * Triggers a task through `client` and keeps track of the latest submission.
+ * A submission that's overtaken by a newer one doesn't update the state.
+ */
+export function createTaskTrigger<TTask extends AnyTask = AnyTask>(
+  client: TriggerClient,
+  taskId: TaskIdentifier<TTask>,
+): TaskTrigger<TTask> {
+  const store = createStore<TriggerTaskState<TTask>>({ isSubmitting: false });
+  let submission = 0;
+
+  const submitAsync: TaskTrigger<TTask>["submitAsync"] = async (payload, options) => {
+    const current = ++submission;
+    store.set({ isSubmitting: true, result: undefined, error: undefined });
+
+    try {
+      const result = (await client.trigger(taskId, payload, options)) as TaskTriggerResult<TTask>;
+
+      if (current === submission) {
+        store.set({ isSubmitting: false, result });
+      }
+
+      return result;
+    } catch (error) {
+      if (current === submission) {
+        store.set({ isSubmitting: false, error: toError(error) });
+      }
+
+      throw error;
+    }
+  };
+
+  return {
+    getSnapshot: store.get,
+    subscribe: store.subscribe,
+    submit: (payload, options) => submitAsync(payload, options).catch(() => undefined),
+    submitAsync,
+    reset() {
+      submission++;
+      store.set({ isSubmitting: false, result: undefined, error: undefined });
+    },
+  };
+}
+
+/**
+ * Follows a run through the run endpoint until it reaches a final status.
+ */
+export function createRunWatcher(client: TriggerClient, runId: string, options: RunWatcherOptions = {}): RunWatcher {
+  const store = createStore<RunState>({ isLoading: true, isCompleted: false });
+  const interval = options.interval ?? 1000;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let controller: AbortController | undefined;
+
+  const poll = async () => {
+    const current = new AbortController();
+    controller = current;
+
+    try {
+      const run = await client.retrieveRun(runId, { signal: current.signal });
+
+      if (current.signal.aborted) {
+        return;
+      }
+
+      const isCompleted = FINAL_STATUSES.has(run.status);
+      store.set({ run, error: undefined, isLoading: false, isCompleted });
+
+      if (isCompleted) {
+        return;
+      }
+    } catch (error) {
+      if (current.signal.aborted) {
+        return;
+      }
+
+      store.set({ error: toError(error), isLoading: false });
+    }
+
+    timer = setTimeout(poll, interval);
+  };
+
+  const stop = () => {
+    clearTimeout(timer);
+    controller?.abort();
+    timer = undefined;
+  };
+
+  return {
+    getSnapshot: store.get,
+    subscribe(listener) {
+      const unsubscribe = store.subscribe(listener);
+
+      if (store.size() === 1 && !store.get().isCompleted) {
+        void poll();
+      }
+
+      return () => {
+        unsubscribe();
+
+        if (store.size() === 0) {
+          stop();
+        }
+      };
+    },
+  };
+}
+
+const TriggerClientContext = createContext<TriggerClient | undefined>(undefined);
+
+/**
+ * Makes `client` the one the hooks below it use.
+ */
+export function TriggerClientProvider({ client, children }: { client: TriggerClient; children?: ReactNode }) {
+  return createElement(TriggerClientContext.Provider, { value: client }, children);
+}
+
+export type TriggerHookOptions = {
+  /**
+   * Used instead of the client from `TriggerClientProvider`.
+   */
+  client?: TriggerClient;
+};
+
+/**
+ * Triggers a task through the adapter endpoint, e.g.
+ * `useTriggerTask<typeof emailTask>("send-email")`.
+ */
+export function useTriggerTask<TTask extends AnyTask = AnyTask>(
+  taskId: TaskIdentifier<TTask>,
+  options: TriggerHookOptions = {},
+): Omit<TaskTrigger<TTask>, "getSnapshot" | "subscribe"> & TriggerTaskState<TTask> {
+  const client = useClient(options.client);
+  const trigger = useMemo(() => createTaskTrigger<TTask>(client, taskId), [client, taskId]);
+  const state = useSyncExternalStore(trigger.subscribe, trigger.getSnapshot, trigger.getSnapshot);
+
+  return { ...state, submit: trigger.submit, submitAsync: trigger.submitAsync, reset: trigger.reset };
+}
+
+const IDLE: RunState = { isLoading: false, isCompleted: false };
+
+const subscribeIdle = () => () => {};
+
+const getIdle = () => IDLE;
+
+/**
+ * Follows a run through the adapter's run endpoint, polling until it
+ * completes. Pass `undefined` until there's a run to follow.
+ */
+export function useRun(runId: string | undefined, options: TriggerHookOptions & RunWatcherOptions = {}): RunState {
+  const client = useClient(options.client);
+  const watcher = useMemo(
+    () => (runId ? createRunWatcher(client, runId, { interval: options.interval }) : undefined),
+    [client, runId, options.interval],
+  );
+
+  return useSyncExternalStore(
+    watcher?.subscribe ?? subscribeIdle,
+    watcher?.getSnapshot ?? getIdle,
+    watcher?.getSnapshot ?? getIdle,
+  );
+}
+
+function useClient(client: TriggerClient | undefined): TriggerClient {
+  const provided = useContext(TriggerClientContext);
+  const resolved = client ?? provided;
+
+  if (!resolved) {
+    throw new Error("Wrap the component in a TriggerClientProvider or pass a client to the hook");
+  }
+
+  return resolved;
+}
+
+function createStore<T>(initial: T) {
+  let state = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => state,
+    set(next: Partial<T>) {
+      state = { ...state, ...next };
+
+      for (const listener of listeners) {
+        listener();
+      }
+    },
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    size: () => listeners.size,
+  };
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,39 @@
+import type { BatchTriggerResult, TriggerResult } from "./core";
+
+/**
+ * - `"full"` sends the whole result back, including the payload and the run's
+ *   public access token.
+ * - `"handle"` sends the run handle without the payload.
+ * - `"minimal"` sends only the run ID (or the batch ID for batches).
+ *
+ * Fields that describe the outcome of the request (`idempotency`, `run`,
+ * `statusUrl` and a batch's `items`) are kept by every preset.
+ */
+export type ResultPreset = "full" | "handle" | "minimal";
+
+export type ResultSerializer<Payload = unknown> =
+  | ResultPreset
+  | ((result: TriggerResult<Payload> | BatchTriggerResult<Payload>) => unknown);
+
+export function serializeResult<Payload>(
+  serializer: ResultSerializer<Payload> | undefined,
+  result: TriggerResult<Payload> | BatchTriggerResult<Payload>,
+): unknown {
+  if (typeof serializer === "function") {
+    return serializer(result);
+  }
+
+  if (!serializer || serializer === "full") {
+    return result;
+  }
+
+  if ("payloads" in result) {
+    const { taskId: _taskId, payloads: _payloads, options: _options, handle, ...outcome } = result;
+
+    return serializer === "handle" ? { handle, ...outcome } : { batchId: handle.batchId, ...outcome };
+  }
+
+  const { taskId: _taskId, payload: _payload, options: _options, handle, ...outcome } = result;
+
+  return serializer === "handle" ? { handle, ...outcome } : { runId: handle.id, ...outcome };
+}
@@ -0,0 +1,117 @@
+import { batch, runs } from "@trigger.dev/sdk";
+import { UpstreamError } from "./errors";
+
+/**
+ * The normalized view of a run returned by the run endpoints.
+ */
+export type RunSummary = {
+  id: string;
+  taskId: string;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  output?: unknown;
+  error?: { name?: string; message: string };
+};
+
+type Run = Awaited<ReturnType<typeof runs.retrieve>>;
+
+export async function retrieveRun(id: string): Promise<Run | undefined> {
+  try {
+    return await runs.retrieve(id);
+  } catch (error) {
+    // The SDK throws an `ApiError` carrying the HTTP status for unknown runs.
+    if ((error as { status?: unknown }).status === 404) {
+      return undefined;
+    }
+
+    throw new UpstreamError(error);
+  }
+}
+
+/**
+ * Lists the IDs of the runs a batch created, in the order of its items. Runs
+ * the batch hasn't created yet are missing from the end, and a failed lookup
+ * lists none: the batch was already triggered, so a 502 would only invite a
+ * retry that triggers it twice.
+ */
+export async function retrieveBatchRunIds(batchId: string): Promise<string[]> {
+  try {
+    return (await batch.retrieve(batchId)).runs;
+  } catch {
+    return [];
+  }
+}
+
+type RunState = Pick<
+  Run,
+  "id" | "taskIdentifier" | "status" | "createdAt" | "updatedAt" | "startedAt" | "finishedAt" | "output" | "error"
+>;
+
+export function toRunSummary(run: RunState): RunSummary {
+  return {
+    id: run.id,
+    taskId: run.taskIdentifier,
+    status: run.status,
+    createdAt: run.createdAt.toISOString(),
+    updatedAt: run.updatedAt.toISOString(),
+    startedAt: run.startedAt?.toISOString(),
+    finishedAt: run.finishedAt?.toISOString(),
+    output: run.output,
+    error: run.error && { name: run.error.name, message: run.error.message },
+  };
+}
+
+/**
+ * Follows a run with the realtime API until it completes. Resolves with
+ * `undefined` when `timeout` milliseconds pass first.
+ */
+export async function waitForRun(id: string, timeout: number): Promise<RunSummary | undefined> {
+  const subscription = runs.subscribeToRun(id);
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    subscription.unsubscribe();
+  }, timeout);
+
+  try {
+    for await (const run of subscription) {
+      if (run.isCompleted) {
+        return toRunSummary(run);
+      }
+    }
+
+    return undefined;
+  } catch (error) {
+    // Unsubscribing aborts the underlying request, which may surface as an error.
+    if (timedOut) {
+      return undefined;
+    }
+
+    throw new UpstreamError(error);
+  } finally {
+    clearTimeout(timer);
+    subscription.unsubscribe();
+  }
+}
+
+/**
+ * The HTTP status a completed run is answered with in wait mode.
+ */
+export function toRunStatusCode(status: string): number {
+  switch (status) {
+    case "COMPLETED":
+      return 200;
+    case "CANCELED":
+      return 409;
+    case "EXPIRED":
+      return 410;
+    case "TIMED_OUT":
+      return 504;
+    default:
+      return 500;
+  }
+}
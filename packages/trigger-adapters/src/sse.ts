@@ -0,0 +1,133 @@
+import { runs } from "@trigger.dev/sdk";
+import { type RunSummary, toRunSummary } from "./runs";
+
+export type StreamOptions = {
+  /**
+   * How often, in milliseconds, a comment is sent to keep idle connections
+   * open. Defaults to 15 seconds.
+   */
+  heartbeat?: number;
+};
+
+export const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+};
+
+/**
+ * A Node.js `ServerResponse`, or anything shaped like one.
+ */
+export type EventStreamTarget = {
+  writeHead(status: number, headers: Record<string, string>): unknown;
+  /**
+   * Returns `false` when the chunk was buffered, until `drain` is emitted.
+   */
+  write(chunk: Uint8Array): boolean;
+  end(): unknown;
+  on(event: "close", listener: () => void): unknown;
+  once(event: "drain", listener: () => void): unknown;
+};
+
+export function wantsEventStream(headers: Headers): boolean {
+  return headers.get("accept")?.includes("text/event-stream") ?? false;
+}
+
+/**
+ * Streams a triggered run as Server-Sent Events: a `trigger` event with the
+ * serialized result, an `update` event for every change the realtime subscription sees
+ * and a `done` event with the final run. The stream closes once the run
+ * completes, and cancelling it unsubscribes from the run.
+ */
+export function createEventStream(
+  runId: string,
+  result: unknown,
+  options: StreamOptions = {},
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const subscription = runs.subscribeToRun(runId);
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stop = () => {
+    closed = true;
+    clearInterval(heartbeat);
+    subscription.unsubscribe();
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      const event = (name: string, data: unknown) => send(`event: ${name}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      heartbeat = setInterval(() => send(": heartbeat\n\n"), options.heartbeat ?? 15_000);
+
+      event("trigger", result);
+
+      try {
+        let last: RunSummary | undefined;
+
+        for await (const run of subscription) {
+          last = toRunSummary(run);
+          event("update", { ...last, metadata: run.metadata });
+        }
+
+        event("done", last);
+      } catch (error) {
+        event("error", { error: error instanceof Error ? error.message : "Failed to stream run" });
+      }
+
+      if (!closed) {
+        stop();
+        controller.close();
+      }
+    },
+    cancel: stop,
+  });
+}
+
+export function toEventStreamResponse(stream: ReadableStream<Uint8Array>): Response {
+  return new Response(stream, { status: 200, headers: EVENT_STREAM_HEADERS });
+}
+
+/**
+ * Writes an event stream to a Node.js response, cancelling it when the client
+ * disconnects. Reading waits for the response to drain whenever it buffers, so
+ * a slow client doesn't pile events up in memory.
+ */
+export async function writeEventStream(stream: ReadableStream<Uint8Array>, target: EventStreamTarget): Promise<void> {
+  const reader = stream.getReader();
+  let closed = false;
+  let resume: (() => void) | undefined;
+
+  target.on("close", () => {
+    closed = true;
+    resume?.();
+    reader.cancel().catch(() => {});
+  });
+
+  target.writeHead(200, EVENT_STREAM_HEADERS);
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) {
+      break;
+    }
+
+    if (!target.write(value) && !closed) {
+      // A closed response never drains, so closing resumes as well.
+      await new Promise<void>((resolve) => {
+        resume = resolve;
+        target.once("drain", resolve);
+      });
+    }
+  }
+
+  target.end();
+}
@@ -0,0 +1,114 @@
+import { json, type RequestEvent, type RequestHandler } from "@sveltejs/kit";
+import type { AnyTask } from "@trigger.dev/sdk";
+import {
+  type Executor,
+  execute,
+  executeBatch,
+  type HandlerOptions,
+  type HandlerResponse,
+  handleRun,
+  handleTrigger,
+  handleWebhook,
+  type WebhookHandlerOptions,
+} from "./core";
+import { generateOpenAPI, type OpenAPIOptions } from "./openapi";
+import { toEventStreamResponse } from "./sse";
+
+export type { HandlerOptions, RunSummary, TaskTriggerResult, TriggerResult, ValidationIssue } from "./core";
+
+export function handler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: HandlerOptions<TTasks, TPayload> = {},
+): RequestHandler {
+  return createHandler(options, execute);
+}
+
+/**
+ * Triggers an array body as a single batch. Mount it at `/trigger/:id/batch`.
+ */
+export function batchHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: HandlerOptions<TTasks, TPayload> = {},
+): RequestHandler {
+  return createHandler(options, executeBatch);
+}
+
+/**
+ * Serves the run endpoints. Export it as `GET` from
+ * `src/routes/runs/[runId]/+server.ts` and as `POST` from
+ * `src/routes/runs/[runId]/[action]/+server.ts`.
+ */
+export function runHandler<const TTasks extends readonly AnyTask[] = AnyTask[]>(
+  options: HandlerOptions<TTasks> = {},
+): RequestHandler {
+  return async ({ params, request, locals, getClientAddress }: RequestEvent) => {
+    const result = await handleRun("sveltekit", options, () => ({
+      runId: params.runId,
+      action: params.action,
+      method: request.method,
+      headers: request.headers,
+      locals: locals as Record<string, unknown>,
+      ip: getClientAddress,
+    }));
+
+    return send(result);
+  };
+}
+
+/**
+ * Triggers tasks from a third-party webhook. Export it as `POST` from the
+ * `+server.ts` of the URL the sender delivers to.
+ */
+export function webhookHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: WebhookHandlerOptions<TTasks, TPayload>,
+): RequestHandler {
+  return async ({ request, locals, getClientAddress }: RequestEvent) => {
+    const result = await handleWebhook("sveltekit", options, () => ({
+      method: request.method,
+      headers: request.headers,
+      body: request,
+      locals: locals as Record<string, unknown>,
+      ip: getClientAddress,
+    }));
+
+    return send(result);
+  };
+}
+
+/**
+ * Serves the OpenAPI document describing the trigger endpoints. Export it as
+ * `GET` from `src/routes/openapi.json/+server.ts`.
+ */
+export function openAPIHandler<const TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown>(
+  options: OpenAPIOptions<TTasks, TPayload> = {},
+): RequestHandler {
+  const document = generateOpenAPI(options);
+
+  return () => send({ status: 200, body: document });
+}
+
+function createHandler<TTasks extends readonly AnyTask[], TPayload>(
+  options: HandlerOptions<TTasks, TPayload>,
+  run: Executor,
+): RequestHandler {
+  return async ({ params, request, locals, getClientAddress }: RequestEvent) => {
+    const result = await handleTrigger("sveltekit", options, run, () => ({
+      taskId: params.id,
+      method: request.method,
+      headers: request.headers,
+      query: new URL(request.url).searchParams,
+      params,
+      body: request,
+      locals: locals as Record<string, unknown>,
+      ip: getClientAddress,
+    }));
+
+    if (result.events) {
+      return toEventStreamResponse(result.events());
+    }
+
+    return send(result);
+  };
+}
+
+function send(result: HandlerResponse): Response {
+  return json(result.body, { status: result.status, headers: result.headers });
+}
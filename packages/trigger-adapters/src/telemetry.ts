@@ -0,0 +1,149 @@
+import { context, propagation, type Span, SpanStatusCode, type Tracer, trace } from "@opentelemetry/api";
+import type { TriggerOptions } from "@trigger.dev/sdk";
+import type { TriggerAdapterError } from "./errors";
+
+export type TelemetryOptions = {
+  /**
+   * Defaults to the `trigger-adapters` tracer of the global tracer provider.
+   */
+  tracer?: Tracer;
+  /**
+   * The run metadata key the trace context is written to, so the run's spans
+   * can be linked back to the request. Defaults to `"traceContext"`; `false`
+   * leaves the metadata alone.
+   */
+  metadataKey?: string | false;
+};
+
+const ATTRIBUTES = {
+  framework: "trigger.framework",
+  taskId: "trigger.task_id",
+  runId: "trigger.run_id",
+  batchId: "trigger.batch_id",
+  runStatus: "trigger.run_status",
+  outcome: "trigger.outcome",
+  errorCode: "trigger.error_code",
+  statusCode: "http.response.status_code",
+} as const;
+
+/**
+ * Runs `fn` in a span for the request, which is the active span until `fn`
+ * settles. `fn` gets `undefined` when telemetry is off.
+ */
+export function withRequestSpan<T extends { status: number }>(
+  telemetry: boolean | TelemetryOptions | undefined,
+  framework: string,
+  fn: (span: Span | undefined) => Promise<T>,
+): Promise<T> {
+  if (!telemetry) {
+    return fn(undefined);
+  }
+
+  const tracer = (telemetry === true ? undefined : telemetry.tracer) ?? trace.getTracer("trigger-adapters");
+
+  return tracer.startActiveSpan(
+    "trigger-adapters request",
+    { attributes: { [ATTRIBUTES.framework]: framework } },
+    async (span) => {
+      try {
+        const response = await fn(span);
+
+        span.setAttribute(ATTRIBUTES.statusCode, response.status);
+        span.setAttribute(ATTRIBUTES.outcome, response.status < 400 ? "success" : "error");
+
+        if (response.status >= 500) {
+          span.setStatus({ code: SpanStatusCode.ERROR });
+        }
+
+        return response;
+      } finally {
+        span.end();
+      }
+    },
+  );
+}
+
+/**
+ * Records an error the request is answered with. Only server errors are
+ * recorded as exceptions; the rest are the client's doing.
+ */
+export function recordError(span: Span | undefined, error: TriggerAdapterError): void {
+  span?.setAttribute(ATTRIBUTES.errorCode, error.code);
+
+  if (error.status >= 500) {
+    span?.recordException(error);
+  }
+}
+
+/**
+ * Sets attributes on the request's span. It's passed along rather than read
+ * from the active context, which is empty without a context manager, as on
+ * edge runtimes.
+ */
+export function setSpanAttributes(
+  span: Span | undefined,
+  attributes: Partial<Record<keyof typeof ATTRIBUTES, string>>,
+): void {
+  if (!span) {
+    return;
+  }
+
+  for (const [name, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      span.setAttribute(ATTRIBUTES[name as keyof typeof ATTRIBUTES], value);
+    }
+  }
+}
+
+/**
+ * Writes the request span's trace context into the run's metadata, in the
+ * format of the global propagator (W3C `traceparent` by default).
+ */
+export function injectTraceContext(
+  telemetry: boolean | TelemetryOptions | undefined,
+  span: Span | undefined,
+  options: TriggerOptions | undefined,
+): TriggerOptions | undefined {
+  if (!telemetry || !span) {
+    return options;
+  }
+
+  const key = metadataKey(telemetry);
+
+  if (key === false) {
+    return options;
+  }
+
+  const carrier: Record<string, string> = {};
+  propagation.inject(trace.setSpan(context.active(), span), carrier);
+
+  if (Object.keys(carrier).length === 0) {
+    return options;
+  }
+
+  return { ...options, metadata: { ...options?.metadata, [key]: carrier } };
+}
+
+/**
+ * Takes the trace context `injectTraceContext` wrote back out of the trigger
+ * options, to report the options without it.
+ */
+export function removeTraceContext(
+  telemetry: boolean | TelemetryOptions | undefined,
+  options: TriggerOptions | undefined,
+): TriggerOptions | undefined {
+  const key = telemetry ? metadataKey(telemetry) : false;
+
+  if (key === false || !options?.metadata || !(key in options.metadata)) {
+    return options;
+  }
+
+  const { [key]: _, ...metadata } = options.metadata;
+  const { metadata: __, ...rest } = options;
+
+  return Object.keys(metadata).length > 0 ? { ...rest, metadata } : rest;
+}
+
+function metadataKey(telemetry: true | TelemetryOptions): string | false {
+  return telemetry === true ? "traceContext" : (telemetry.metadataKey ?? "traceContext");
+}
@@ -0,0 +1,137 @@
+import type { TriggerOptions } from "@trigger.dev/sdk";
+
+/**
+ * The trigger options a client may be allowed to set on a run.
+ */
+export type ClientTriggerOption = "delay" | "ttl" | "tags" | "queue" | "concurrencyKey";
+
+export const TRIGGER_OPTION_HEADERS: Record<ClientTriggerOption, string> = {
+  delay: "x-trigger-delay",
+  ttl: "x-trigger-ttl",
+  tags: "x-trigger-tags",
+  queue: "x-trigger-queue",
+  concurrencyKey: "x-trigger-concurrency-key",
+};
+
+const CLIENT_OPTIONS = Object.keys(TRIGGER_OPTION_HEADERS) as ClientTriggerOption[];
+
+export type ClientTriggerOptions = Pick<TriggerOptions, ClientTriggerOption>;
+
+/**
+ * Reads client supplied trigger options from `X-Trigger-*` headers and, when
+ * present, the `options` of a request envelope. Returns an error message when
+ * an option is unknown, malformed or not in `allowed`.
+ */
+export function readClientOptions(
+  headers: Headers,
+  envelope: unknown,
+  allowed: readonly ClientTriggerOption[],
+): { ok: true; options: ClientTriggerOptions } | { ok: false; error: string } {
+  const options: Record<string, unknown> = {};
+
+  for (const name of CLIENT_OPTIONS) {
+    const value = headers.get(TRIGGER_OPTION_HEADERS[name]);
+
+    if (value !== null) {
+      options[name] = fromHeader(name, value);
+    }
+  }
+
+  if (envelope !== undefined) {
+    if (typeof envelope !== "object" || envelope === null || Array.isArray(envelope)) {
+      return { ok: false, error: "Trigger options must be an object" };
+    }
+
+    Object.assign(options, envelope);
+  }
+
+  for (const [name, value] of Object.entries(options)) {
+    if (!CLIENT_OPTIONS.includes(name as ClientTriggerOption)) {
+      return { ok: false, error: `Unknown trigger option "${name}"` };
+    }
+
+    if (!allowed.includes(name as ClientTriggerOption)) {
+      return { ok: false, error: `Trigger option "${name}" is not allowed` };
+    }
+
+    if (!isValid(name as ClientTriggerOption, value)) {
+      return { ok: false, error: `Invalid value for trigger option "${name}"` };
+    }
+  }
+
+  return { ok: true, options: options as ClientTriggerOptions };
+}
+
+/**
+ * Writes trigger options as the `X-Trigger-*` headers `readClientOptions`
+ * reads.
+ */
+export function toTriggerOptionHeaders(options: ClientTriggerOptions): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const name of CLIENT_OPTIONS) {
+    const value = options[name];
+
+    if (value === undefined) {
+      continue;
+    }
+
+    if (Array.isArray(value)) {
+      headers[TRIGGER_OPTION_HEADERS[name]] = value.join(",");
+    } else {
+      headers[TRIGGER_OPTION_HEADERS[name]] = value instanceof Date ? value.toISOString() : String(value);
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Layers client options over the server defaults. Tags from both are kept.
+ */
+export function mergeTriggerOptions(
+  defaults: TriggerOptions | undefined,
+  client: ClientTriggerOptions,
+): TriggerOptions | undefined {
+  if (!defaults && Object.keys(client).length === 0) {
+    return undefined;
+  }
+
+  const options: TriggerOptions = { ...defaults, ...client };
+
+  if (defaults?.tags && client.tags) {
+    options.tags = [...toArray(defaults.tags), ...toArray(client.tags)];
+  }
+
+  return options;
+}
+
+function fromHeader(name: ClientTriggerOption, value: string): unknown {
+  if (name === "tags") {
+    return value
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+
+  if (name === "ttl" && /^\d+$/.test(value)) {
+    return Number(value);
+  }
+
+  return value;
+}
+
+function isValid(name: ClientTriggerOption, value: unknown): boolean {
+  switch (name) {
+    case "ttl":
+      return typeof value === "string" || typeof value === "number";
+    case "tags":
+      return typeof value === "string" || (Array.isArray(value) && value.every((tag) => typeof tag === "string"));
+    default:
+      return typeof value === "string";
+  }
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
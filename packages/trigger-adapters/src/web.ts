@@ -0,0 +1,223 @@
+import type { AnyTask } from "@trigger.dev/sdk";
+import {
+  type Executor,
+  type HandlerOptions,
+  type HandlerResponse,
+  handleRun,
+  handleTrigger,
+  handleWebhook,
+  type WebhookHandlerOptions,
+} from "./core";
+import { toEventStreamResponse } from "./sse";
+
+// The handlers for runtimes with the web `Request` and `Response`, shared by
+// the fetch adapter and the Next.js App Router. `framework` names the adapter
+// in telemetry.
+
+export type WebHandlerOptions<TTasks extends readonly AnyTask[] = AnyTask[], TPayload = unknown> = HandlerOptions<
+  TTasks,
+  TPayload
+> & {
+  /**
+   * The path the endpoint is mounted at, e.g. `/api/trigger`. The task ID is
+   * the single path segment that follows it. When omitted, the last segment of
+   * the pathname is used.
+   */
+  basePath?: string;
+};
+
+export type RouteParams = Record<string, string | string[] | undefined>;
+
+/**
+ * The second argument Next.js passes to route handlers. `params` is a promise
+ * since Next.js 15.
+ */
+export type RouteContext = {
+  params?: RouteParams | Promise<RouteParams>;
+};
+
+export function createTriggerHandler<TTasks extends readonly AnyTask[], TPayload>(
+  framework: string,
+  options: WebHandlerOptions<TTasks, TPayload>,
+  run: Executor,
+  batch: boolean,
+): (request: Request, context?: RouteContext) => Promise<Response> {
+  return async (request: Request, context?: RouteContext) => {
+    const result = await handleTrigger(framework, options, run, async () => {
+      const url = new URL(request.url);
+      const params = await context?.params;
+
+      return {
+        taskId:
+          params?.id !== undefined
+            ? getParamTaskId(params.id, batch)
+            : getTaskId(url.pathname, options.basePath, batch),
+        method: request.method,
+        headers: request.headers,
+        query: url.searchParams,
+        params,
+        body: request,
+      };
+    });
+
+    if (result.events) {
+      return toEventStreamResponse(result.events());
+    }
+
+    return send(result);
+  };
+}
+
+export function createRunHandler<TTasks extends readonly AnyTask[]>(
+  framework: string,
+  options: WebHandlerOptions<TTasks>,
+): (request: Request, context?: RouteContext) => Promise<Response> {
+  return async (request: Request, context?: RouteContext) => {
+    const result = await handleRun(framework, options, async () => {
+      const params = await context?.params;
+      const path =
+        params?.runId !== undefined
+          ? getParamRunPath(params.runId, params.action)
+          : getRunPath(new URL(request.url).pathname, options.basePath);
+
+      return {
+        runId: path?.runId ?? null,
+        action: path?.action,
+        method: request.method,
+        headers: request.headers,
+        params,
+      };
+    });
+
+    return send(result);
+  };
+}
+
+export function createWebhookHandler<TTasks extends readonly AnyTask[], TPayload>(
+  framework: string,
+  options: WebhookHandlerOptions<TTasks, TPayload>,
+): (request: Request) => Promise<Response> {
+  return async (request: Request) => {
+    const result = await handleWebhook(framework, options, () => ({
+      method: request.method,
+      headers: request.headers,
+      body: request,
+    }));
+
+    return send(result);
+  };
+}
+
+function send(result: HandlerResponse): Response {
+  return Response.json(result.body, { status: result.status, headers: result.headers });
+}
+
+/**
+ * Returns the task ID for a pathname, an empty string when the ID is missing,
+ * or `null` when the pathname is outside of `basePath`.
+ */
+function getTaskId(pathname: string, basePath: string | undefined, batch: boolean): string | null {
+  let path = pathname;
+
+  if (batch) {
+    path = path.replace(/\/+$/, "");
+
+    if (!path.endsWith("/batch")) {
+      return null;
+    }
+
+    path = path.slice(0, -"/batch".length);
+  }
+
+  if (!basePath) {
+    return decodeURIComponent(path.split("/").pop() ?? "");
+  }
+
+  const base = basePath.replace(/\/+$/, "");
+
+  if (path !== base && !path.startsWith(`${base}/`)) {
+    return null;
+  }
+
+  const rest = path.slice(base.length + 1).replace(/\/+$/, "");
+
+  if (rest.includes("/")) {
+    return null;
+  }
+
+  return decodeURIComponent(rest);
+}
+
+/**
+ * Returns the task ID from an `[id]` route param, or from an `[...id]`
+ * catch-all, whose last segment is `batch` for batch routes. A catch-all with
+ * more segments than that is `null`.
+ */
+function getParamTaskId(id: string | string[], batch: boolean): string | null {
+  if (typeof id === "string") {
+    return id;
+  }
+
+  let segments = id;
+
+  if (batch) {
+    if (segments.at(-1) !== "batch") {
+      return null;
+    }
+
+    segments = segments.slice(0, -1);
+  }
+
+  return segments.length > 1 ? null : (segments[0] ?? "");
+}
+
+/**
+ * Returns the run ID and action from `[runId]` and `[action]` route params,
+ * or from an `[...runId]` catch-all.
+ */
+function getParamRunPath(
+  runId: string | string[],
+  action: string | string[] | undefined,
+): { runId: string; action?: string } | null {
+  if (typeof runId === "string") {
+    return { runId, action: typeof action === "string" ? action : undefined };
+  }
+
+  const [id = "", segment, ...rest] = runId;
+
+  return rest.length > 0 ? null : { runId: id, action: segment };
+}
+
+/**
+ * Returns the run ID and action for a pathname, or `null` when the pathname is
+ * outside of `basePath`. Without a `basePath`, a trailing `cancel` or `replay`
+ * segment is the action and the segment before it the run ID.
+ */
+function getRunPath(pathname: string, basePath: string | undefined): { runId: string; action?: string } | null {
+  const path = pathname.replace(/\/+$/, "");
+
+  if (!basePath) {
+    const segments = path.split("/");
+    const last = segments.pop() ?? "";
+
+    if ((last === "cancel" || last === "replay") && segments.length > 1) {
+      return { runId: decodeURIComponent(segments.pop() ?? ""), action: last };
+    }
+
+    return { runId: decodeURIComponent(last) };
+  }
+
+  const base = basePath.replace(/\/+$/, "");
+
+  if (path !== base && !path.startsWith(`${base}/`)) {
+    return null;
+  }
+
+  const [runId = "", action, ...rest] = path.slice(base.length + 1).split("/");
+
+  if (rest.length > 0) {
+    return null;
+  }
+
+  return { runId: decodeURIComponent(runId), action };
+}
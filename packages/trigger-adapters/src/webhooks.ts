@@ -0,0 +1,231 @@
+/**
+ * Verifies deliveries from one webhook sender and reads the event type out of
+ * them.
+ */
+export type WebhookProvider = {
+  /**
+   * Resolves `false` when the signature is missing, doesn't match the raw body
+   * or is too old.
+   */
+  verify(body: string, headers: Headers): Promise<boolean>;
+  /**
+   * The event type, which the handler's `events` maps to a task ID.
+   */
+  event(payload: unknown, headers: Headers): string | undefined;
+  /**
+   * Identifies the delivery. It's passed on as the idempotency key so a
+   * redelivered event doesn't trigger the task twice.
+   */
+  deliveryId?(payload: unknown, headers: Headers): string | undefined;
+  /**
+   * A body to answer with instead of triggering a task, such as the challenge
+   * of Slack's URL verification.
+   */
+  respond?(payload: unknown): unknown;
+};
+
+export type GitHubWebhookOptions = {
+  secret: string;
+};
+
+/**
+ * GitHub webhooks, signed with `X-Hub-Signature-256`. The event type is the
+ * `X-GitHub-Event` header, e.g. `push` or `pull_request`.
+ */
+export function github({ secret }: GitHubWebhookOptions): WebhookProvider {
+  return {
+    async verify(body, headers) {
+      const signature = headers.get("x-hub-signature-256");
+
+      if (!signature?.startsWith("sha256=")) {
+        return false;
+      }
+
+      return safeEqual(signature.slice("sha256=".length), await sign("SHA-256", secret, body, "hex"));
+    },
+    event: (_payload, headers) => headers.get("x-github-event") ?? undefined,
+    deliveryId: (_payload, headers) => headers.get("x-github-delivery") ?? undefined,
+  };
+}
+
+export type StripeWebhookOptions = {
+  /**
+   * The endpoint's signing secret, `whsec_...`.
+   */
+  secret: string;
+  /**
+   * How old a signature may be, in seconds. Defaults to 300.
+   */
+  tolerance?: number;
+};
+
+/**
+ * Stripe webhooks, signed with `Stripe-Signature`. The event type is the
+ * event's `type`, e.g. `checkout.session.completed`.
+ */
+export function stripe({ secret, tolerance = 300 }: StripeWebhookOptions): WebhookProvider {
+  return {
+    async verify(body, headers) {
+      const parts = (headers.get("stripe-signature") ?? "").split(",").map((part) => part.trim().split("="));
+      const timestamp = parts.find(([name]) => name === "t")?.[1];
+      const signatures = parts.filter(([name]) => name === "v1").map(([, value]) => value ?? "");
+
+      if (!timestamp || signatures.length === 0 || !isFresh(timestamp, tolerance)) {
+        return false;
+      }
+
+      const expected = await sign("SHA-256", secret, `${timestamp}.${body}`, "hex");
+
+      return signatures.some((signature) => safeEqual(signature, expected));
+    },
+    event: (payload) => readString(payload, "type"),
+    deliveryId: (payload) => readString(payload, "id"),
+  };
+}
+
+export type SlackWebhookOptions = {
+  /**
+   * The app's signing secret.
+   */
+  secret: string;
+  /**
+   * How old a request may be, in seconds. Defaults to 300.
+   */
+  tolerance?: number;
+};
+
+/**
+ * Slack Events API requests, signed with `X-Slack-Signature`. The event type
+ * is the inner event's `type`, e.g. `app_mention`. URL verification requests
+ * are answered with their challenge.
+ */
+export function slack({ secret, tolerance = 300 }: SlackWebhookOptions): WebhookProvider {
+  return {
+    async verify(body, headers) {
+      const signature = headers.get("x-slack-signature");
+      const timestamp = headers.get("x-slack-request-timestamp");
+
+      if (!signature?.startsWith("v0=") || !timestamp || !isFresh(timestamp, tolerance)) {
+        return false;
+      }
+
+      return safeEqual(signature.slice("v0=".length), await sign("SHA-256", secret, `v0:${timestamp}:${body}`, "hex"));
+    },
+    event: (payload) => {
+      if (readString(payload, "type") === "event_callback") {
+        return readString((payload as { event?: unknown }).event, "type");
+      }
+
+      return readString(payload, "type");
+    },
+    deliveryId: (payload) => readString(payload, "event_id"),
+    respond: (payload) => {
+      if (readString(payload, "type") === "url_verification") {
+        return { challenge: readString(payload, "challenge") };
+      }
+
+      return undefined;
+    },
+  };
+}
+
+export type HmacWebhookOptions = {
+  secret: string;
+  /**
+   * The header carrying the signature, e.g. `X-Signature`.
+   */
+  header: string;
+  /**
+   * Defaults to `"sha256"`.
+   */
+  algorithm?: "sha1" | "sha256" | "sha512";
+  /**
+   * How the signature is encoded. Defaults to `"hex"`.
+   */
+  encoding?: "hex" | "base64";
+  /**
+   * Text before the signature in the header, e.g. `sha256=`.
+   */
+  prefix?: string;
+  /**
+   * Reads the event type. Defaults to the payload's `type`.
+   */
+  event?: (payload: unknown, headers: Headers) => string | undefined;
+  deliveryId?: (payload: unknown, headers: Headers) => string | undefined;
+};
+
+/**
+ * Any sender that signs the raw body with an HMAC of a shared secret.
+ */
+export function hmac({
+  secret,
+  header,
+  algorithm = "sha256",
+  encoding = "hex",
+  prefix = "",
+  event = (payload) => readString(payload, "type"),
+  deliveryId,
+}: HmacWebhookOptions): WebhookProvider {
+  const hash = ({ sha1: "SHA-1", sha256: "SHA-256", sha512: "SHA-512" } as const)[algorithm];
+
+  return {
+    async verify(body, headers) {
+      const signature = headers.get(header);
+
+      if (!signature?.startsWith(prefix)) {
+        return false;
+      }
+
+      return safeEqual(signature.slice(prefix.length), await sign(hash, secret, body, encoding));
+    },
+    event,
+    deliveryId,
+  };
+}
+
+async function sign(
+  hash: "SHA-1" | "SHA-256" | "SHA-512",
+  secret: string,
+  data: string,
+  encoding: "hex" | "base64",
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash }, false, ["sign"]);
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(data)));
+
+  if (encoding === "base64") {
+    return btoa(String.fromCharCode(...signature));
+  }
+
+  return Array.from(signature, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Compares signatures in constant time, so response timings don't reveal how
+ * much of a forged signature was right.
+ */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let difference = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return difference === 0;
+}
+
+function isFresh(timestamp: string, tolerance: number): boolean {
+  const seconds = Number(timestamp);
+
+  return Number.isFinite(seconds) && Math.abs(Date.now() / 1000 - seconds) <= tolerance;
+}
+
+function readString(value: unknown, key: string): string | undefined {
+  const field = typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+
+  return typeof field === "string" ? field : undefined;
+}
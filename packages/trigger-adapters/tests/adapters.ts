@@ -0,0 +1,613 @@
+import { Readable } from "node:stream";
+import { HttpException, type Type } from "@nestjs/common";
+import type { RequestEvent } from "@sveltejs/kit";
+import type { Request as ExpressRequest, Response as ExpressResponse } from "express";
+import type { FastifyReply, FastifyRequest } from "fastify";
+import type { Context as HonoContext } from "hono";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { vi } from "vitest";
+import type { HandlerOptions, WebhookHandlerOptions } from "../src/core";
+import * as elysia from "../src/elysia";
+import * as express from "../src/express";
+import * as fastify from "../src/fastify";
+import * as fetch from "../src/fetch";
+import * as hono from "../src/hono";
+import * as koa from "../src/koa";
+import { TriggerAdaptersModule } from "../src/nestjs";
+import * as nextjs from "../src/nextjs";
+import * as sveltekit from "../src/sveltekit";
+
+// Drives every adapter through the same requests, so the conformance suite can
+// hold them all to the same behavior. Each harness builds the request the way
+// its framework would hand it over, with a JSON body parser mounted where the
+// framework has one, and reads back what the adapter answered.
+
+export type ConformanceRequest = {
+  /**
+   * An empty string leaves the task ID out of the route.
+   */
+  taskId: string;
+  payload?: unknown;
+  headers?: Record<string, string>;
+  method?: string;
+  ip?: string;
+};
+
+export type ConformanceRunRequest = {
+  runId: string;
+  action?: string;
+  method: string;
+  headers?: Record<string, string>;
+};
+
+export type ConformanceWebhookRequest = {
+  body: string;
+  headers: Record<string, string>;
+};
+
+export type ConformanceResponse = {
+  status: number;
+  /**
+   * With lowercase names.
+   */
+  headers: Record<string, string>;
+  // biome-ignore lint/suspicious/noExplicitAny: bodies are plain JSON, read by path in the assertions
+  body: any;
+};
+
+export type AdapterHarness = {
+  trigger(options: HandlerOptions, request: ConformanceRequest): Promise<ConformanceResponse>;
+  batch(options: HandlerOptions, request: ConformanceRequest): Promise<ConformanceResponse>;
+  run(options: HandlerOptions, request: ConformanceRunRequest): Promise<ConformanceResponse>;
+  /**
+   * Missing for adapters without a webhook handler.
+   */
+  webhook?(options: WebhookHandlerOptions, request: ConformanceWebhookRequest): Promise<ConformanceResponse>;
+  /**
+   * Builds the trigger handler with the options as given. Set for adapters
+   * that can't tell the client's IP, whose harness keys rate limits otherwise.
+   */
+  createHandler?(options: HandlerOptions): unknown;
+};
+
+const expressHarness: AdapterHarness = {
+  trigger: (options, request) => callExpress(express.handler(options), request),
+  batch: (options, request) => callExpress(express.batchHandler(options), request),
+  run: async (options, { runId, action, method, headers = {} }) => {
+    const response = createExpressResponse();
+    const params = action ? { runId, action } : { runId };
+
+    await express.runHandler(options)({ method, params, headers } as unknown as ExpressRequest, response);
+
+    return response.result();
+  },
+  // Mounted behind `express.raw()`, which leaves the body as a Buffer.
+  webhook: async (options, { body, headers }) => {
+    const response = createExpressResponse();
+    const request = { method: "POST", body: Buffer.from(body), headers };
+
+    await express.webhookHandler(options)(request as unknown as ExpressRequest, response);
+
+    return response.result();
+  },
+};
+
+async function callExpress(
+  serve: (request: ExpressRequest, response: ExpressResponse) => Promise<unknown>,
+  { taskId, payload, headers, method = "POST", ip = "127.0.0.1" }: ConformanceRequest,
+): Promise<ConformanceResponse> {
+  const response = createExpressResponse();
+  const request = {
+    method,
+    params: taskId ? { id: taskId } : {},
+    originalUrl: `/trigger/${taskId}`,
+    body: payload,
+    headers: jsonHeaders(headers),
+    ip,
+  };
+
+  await serve(request as unknown as ExpressRequest, response);
+
+  return response.result();
+}
+
+function createExpressResponse() {
+  const result: ConformanceResponse = { status: 200, headers: {}, body: undefined };
+  const response = {
+    locals: {},
+    status: vi.fn((status: number) => {
+      result.status = status;
+      return response;
+    }),
+    set: vi.fn((headers: Record<string, string>) => Object.assign(result.headers, lowercase(headers))),
+    send: vi.fn((body: unknown) => {
+      result.body = body;
+    }),
+    result: () => result,
+  };
+
+  return response as unknown as ExpressResponse & { result(): ConformanceResponse };
+}
+
+const fastifyHarness: AdapterHarness = {
+  trigger: (options, request) => callFastify(fastify.handler(options), request),
+  batch: (options, request) => callFastify(fastify.batchHandler(options), request),
+  run: async (options, { runId, action, method, headers = {} }) => {
+    const reply = createFastifyReply();
+
+    await fastify.runHandler(options)(
+      { method, params: { runId, action }, headers } as unknown as FastifyRequest<{
+        Params: { runId: string; action?: string };
+      }>,
+      reply,
+    );
+
+    return reply.result();
+  },
+  // Parsed with `parseAs: "string"`, which leaves the body as text.
+  webhook: async (options, { body, headers }) => {
+    const reply = createFastifyReply();
+
+    await fastify.webhookHandler(options)({ method: "POST", body, headers } as unknown as FastifyRequest, reply);
+
+    return reply.result();
+  },
+};
+
+async function callFastify(
+  serve: (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => Promise<unknown>,
+  { taskId, payload, headers, method = "POST", ip = "127.0.0.1" }: ConformanceRequest,
+): Promise<ConformanceResponse> {
+  const reply = createFastifyReply();
+  const request = {
+    method,
+    url: `/trigger/${taskId}`,
+    params: { id: taskId },
+    body: payload,
+    headers: jsonHeaders(headers),
+    ip,
+  };
+
+  await serve(request as unknown as FastifyRequest<{ Params: { id: string } }>, reply);
+
+  return reply.result();
+}
+
+function createFastifyReply() {
+  const result: ConformanceResponse = { status: 200, headers: {}, body: undefined };
+  const reply = {
+    code: vi.fn((status: number) => {
+      result.status = status;
+      return reply;
+    }),
+    headers: vi.fn((headers: Record<string, string>) => {
+      Object.assign(result.headers, lowercase(headers));
+      return reply;
+    }),
+    send: vi.fn((body: unknown) => {
+      result.body = body;
+      return reply;
+    }),
+    result: () => result,
+  };
+
+  return reply as unknown as FastifyReply & { result(): ConformanceResponse };
+}
+
+const koaHarness: AdapterHarness = {
+  trigger: (options, request) => callKoa(koa.handler(options), request),
+  batch: (options, request) => callKoa(koa.batchHandler(options), request),
+  run: async (options, { runId, action, method, headers = {} }) => {
+    const ctx = createKoaContext({ method, params: { runId, action }, headers, request: {} });
+
+    await koa.runHandler(options)(ctx);
+
+    return fromKoa(ctx);
+  },
+  // `koa-bodyparser` keeps the raw body next to the parsed one.
+  webhook: async (options, { body, headers }) => {
+    const ctx = createKoaContext({
+      method: "POST",
+      params: {},
+      headers,
+      request: { body: JSON.parse(body), rawBody: body },
+    });
+
+    await koa.webhookHandler(options)(ctx);
+
+    return fromKoa(ctx);
+  },
+};
+
+async function callKoa(
+  serve: (ctx: koa.KoaContext) => Promise<void>,
+  { taskId, payload, headers, method = "POST", ip = "127.0.0.1" }: ConformanceRequest,
+): Promise<ConformanceResponse> {
+  const ctx = createKoaContext({
+    method,
+    params: taskId ? { id: taskId } : {},
+    headers: jsonHeaders(headers),
+    request: { body: payload },
+    ip,
+  });
+
+  await serve(ctx);
+
+  return fromKoa(ctx);
+}
+
+function createKoaContext(context: Record<string, unknown>): koa.KoaContext {
+  const headers: Record<string, string> = {};
+
+  return {
+    querystring: "",
+    state: {},
+    ...context,
+    response: { headers },
+    set: vi.fn((values: Record<string, string>) => Object.assign(headers, lowercase(values))),
+  } as unknown as koa.KoaContext;
+}
+
+function fromKoa(ctx: koa.KoaContext): ConformanceResponse {
+  const { headers } = ctx.response as unknown as { headers: Record<string, string> };
+
+  return { status: ctx.status, headers, body: ctx.body };
+}
+
+const elysiaHarness: AdapterHarness = {
+  trigger: (options, request) => callElysia(elysia.handler(options), request),
+  batch: (options, request) => callElysia(elysia.batchHandler(options), request),
+  run: async (options, { runId, action, method, headers = {} }) => {
+    const context = createElysiaContext(
+      { runId, action },
+      undefined,
+      new Request("http://localhost", { method, headers }),
+    );
+
+    return fromElysia(context, await elysia.runHandler(options)(context));
+  },
+  // Registered with `{ parse: "text" }`.
+  webhook: async (options, { body, headers }) => {
+    const context = createElysiaContext({}, body, new Request("http://localhost", { method: "POST", headers }));
+
+    return fromElysia(context, await elysia.webhookHandler(options)(context));
+  },
+};
+
+async function callElysia(
+  serve: (context: elysia.ElysiaContext) => Promise<unknown>,
+  { taskId, payload, headers, method = "POST", ip = "127.0.0.1" }: ConformanceRequest,
+): Promise<ConformanceResponse> {
+  const request = new Request(`http://localhost/trigger/${taskId}`, { method, headers: jsonHeaders(headers) });
+  const context = createElysiaContext(taskId ? { id: taskId } : {}, payload, request, ip);
+
+  return fromElysia(context, await serve(context));
+}
+
+function createElysiaContext(
+  params: Record<string, string | undefined>,
+  body: unknown,
+  request: Request,
+  ip = "127.0.0.1",
+) {
+  const server = { requestIP: () => ({ address: ip }) };
+
+  return { params, body, request, set: { headers: {} }, store: {}, server } as unknown as elysia.ElysiaContext;
+}
+
+function fromElysia(context: elysia.ElysiaContext, body: unknown): ConformanceResponse {
+  return {
+    status: context.set.status as number,
+    headers: lowercase(context.set.headers as Record<string, string>),
+    body,
+  };
+}
+
+// Stands in for a runtime's `getConnInfo`, reading the IP the harness put in
+// the context's environment.
+const getConnInfo = (c: HonoContext) => ({ remote: { address: (c.env as { ip: string }).ip } });
+
+const honoHarness: AdapterHarness = {
+  trigger: (options, request) => callHono(hono.handler({ ...options, getConnInfo }), request),
+  batch: (options, request) => callHono(hono.batchHandler({ ...options, getConnInfo }), request),
+  run: async (options, { runId, action, method, headers }) => {
+    const request = new Request(`http://localhost/runs/${runId}`, { method, headers });
+
+    return fromResponse(await hono.runHandler(options)(createHonoContext({ runId, action }, request)));
+  },
+  webhook: async (options, { body, headers }) => {
+    const request = new Request("http://localhost/webhooks", { method: "POST", headers, body });
+
+    return fromResponse(await hono.webhookHandler({ ...options, getConnInfo })(createHonoContext({}, request)));
+  },
+  createHandler: (options) => hono.handler(options),
+};
+
+async function callHono(
+  serve: (c: HonoContext) => Promise<Response>,
+  { taskId, ip, ...request }: ConformanceRequest,
+): Promise<ConformanceResponse> {
+  const raw = createWebRequest(`http://localhost/trigger/${taskId}`, request);
+
+  return fromResponse(await serve(createHonoContext(taskId ? { id: taskId } : {}, raw, ip)));
+}
+
+function createHonoContext(params: Record<string, string | undefined>, raw: Request, ip = "127.0.0.1"): HonoContext {
+  return {
+    env: { ip },
+    req: {
+      raw,
+      method: raw.method,
+      param: (name?: string) => (name ? params[name] : params),
+      text: () => raw.text(),
+      formData: () => raw.formData(),
+    },
+    var: {},
+    json: (data: unknown, status: number, headers?: Record<string, string>) => Response.json(data, { status, headers }),
+  } as unknown as HonoContext;
+}
+
+const svelteKitHarness: AdapterHarness = {
+  trigger: (options, request) => callSvelteKit(sveltekit.handler(options), request),
+  batch: (options, request) => callSvelteKit(sveltekit.batchHandler(options), request),
+  run: async (options, { runId, action, method, headers }) => {
+    const request = new Request(`http://localhost/runs/${runId}`, { method, headers });
+
+    return fromResponse(await sveltekit.runHandler(options)(createRequestEvent({ runId, action }, request)));
+  },
+  webhook: async (options, { body, headers }) => {
+    const request = new Request("http://localhost/webhooks", { method: "POST", headers, body });
+
+    return fromResponse(await sveltekit.webhookHandler(options)(createRequestEvent({}, request)));
+  },
+};
+
+async function callSvelteKit(
+  serve: (event: RequestEvent) => Promise<Response> | Response,
+  { taskId, ip = "127.0.0.1", ...request }: ConformanceRequest,
+): Promise<ConformanceResponse> {
+  const event = createRequestEvent(
+    taskId ? { id: taskId } : {},
+    createWebRequest(`http://localhost/trigger/${taskId}`, request),
+    ip,
+  );
+
+  return fromResponse(await serve(event));
+}
+
+function createRequestEvent(params: Record<string, string | undefined>, request: Request, ip = "127.0.0.1") {
+  return { params, request, locals: {}, getClientAddress: () => ip } as unknown as RequestEvent;
+}
+
+// Adapters that can't tell the client's IP require a rate limit key. Kept per
+// options object, as the default store is kept per `rateLimit`.
+function withRateLimitKey(key: NonNullable<HandlerOptions["rateLimit"]>["key"]) {
+  const keyed = new WeakMap<object, HandlerOptions>();
+
+  return <T extends HandlerOptions>(options: T): T => {
+    if (!options.rateLimit || options.rateLimit.key) {
+      return options;
+    }
+
+    if (!keyed.has(options)) {
+      keyed.set(options, { ...options, rateLimit: { ...options.rateLimit, key } });
+    }
+
+    return keyed.get(options) as T;
+  };
+}
+
+// Keyed by `X-Forwarded-For`, as an app behind a proxy would.
+const withForwardedForKey = withRateLimitKey(({ headers }) => headers.get("x-forwarded-for") ?? undefined);
+
+// The fetch adapter and the App Router read the task and run IDs from the path.
+function createWebHarness(handlers: {
+  trigger: (options: HandlerOptions) => (request: Request) => Promise<Response>;
+  batch: (options: HandlerOptions) => (request: Request) => Promise<Response>;
+  run: (options: HandlerOptions) => (request: Request) => Promise<Response>;
+  webhook: (options: WebhookHandlerOptions) => (request: Request) => Promise<Response>;
+}): AdapterHarness {
+  return {
+    trigger: async (options, { taskId, ...request }) => {
+      const url = `http://localhost/api/trigger/${encodeURIComponent(taskId)}`;
+
+      return fromResponse(await handlers.trigger(withForwardedForKey(options))(createWebRequest(url, request)));
+    },
+    batch: async (options, { taskId, ...request }) => {
+      const url = `http://localhost/api/trigger/${encodeURIComponent(taskId)}/batch`;
+
+      return fromResponse(await handlers.batch(withForwardedForKey(options))(createWebRequest(url, request)));
+    },
+    run: async (options, { runId, action, method, headers }) => {
+      const url = `http://localhost/api/runs/${runId}${action ? `/${action}` : ""}`;
+
+      return fromResponse(await handlers.run(options)(new Request(url, { method, headers })));
+    },
+    webhook: async (options, { body, headers }) => {
+      const request = new Request("http://localhost/api/webhooks", { method: "POST", headers, body });
+
+      return fromResponse(await handlers.webhook(withForwardedForKey(options))(request));
+    },
+    createHandler: (options) => handlers.trigger(options),
+  };
+}
+
+const fetchHarness = createWebHarness({
+  trigger: fetch.handler,
+  batch: fetch.batchHandler,
+  run: fetch.runHandler,
+  webhook: fetch.webhookHandler,
+});
+
+const appRouterHarness = createWebHarness({
+  trigger: (options) => nextjs.handler(options).POST,
+  batch: (options) => nextjs.batchHandler(options).POST,
+  run: (options) => nextjs.runHandler(options).POST,
+  webhook: (options) => nextjs.webhookHandler(options).POST,
+});
+
+// The Pages Router passes the client's IP on, but its handlers share their
+// options with the App Router's, so rate limits are keyed by it explicitly.
+const withIpKey = withRateLimitKey(({ ip }) => ip);
+
+const pagesRouterHarness: AdapterHarness = {
+  trigger: (options, request) => callPagesRouter(nextjs.handler(withIpKey(options)).handle, request),
+  batch: (options, request) => callPagesRouter(nextjs.batchHandler(withIpKey(options)).handle, request),
+  run: async (options, { runId, action, method, headers = {} }) => {
+    const response = createPagesResponse();
+    const query = action ? { runId, action } : { runId };
+
+    await nextjs.runHandler(options).handle({ method, query, headers } as unknown as NextApiRequest, response);
+
+    return response.result();
+  },
+  // The API route's body parser is off, so the body is read from the stream.
+  webhook: async (options, { body, headers }) => {
+    const response = createPagesResponse();
+    const request = Object.assign(Readable.from([Buffer.from(body)]), { method: "POST", headers });
+
+    await nextjs.webhookHandler(withIpKey(options)).handle(request as unknown as NextApiRequest, response);
+
+    return response.result();
+  },
+  createHandler: (options) => nextjs.handler(options),
+};
+
+async function callPagesRouter(
+  serve: (request: NextApiRequest, response: NextApiResponse) => Promise<void>,
+  { taskId, payload, headers, method = "POST", ip = "127.0.0.1" }: ConformanceRequest,
+): Promise<ConformanceResponse> {
+  const response = createPagesResponse();
+  const request = {
+    method,
+    url: `/api/trigger/${taskId}`,
+    query: taskId ? { id: taskId } : {},
+    body: payload,
+    headers: jsonHeaders(headers),
+    socket: { remoteAddress: ip },
+  };
+
+  await serve(request as unknown as NextApiRequest, response);
+
+  return response.result();
+}
+
+function createPagesResponse() {
+  const result: ConformanceResponse = { status: 200, headers: {}, body: undefined };
+  const response = {
+    status: vi.fn((status: number) => {
+      result.status = status;
+      return response;
+    }),
+    setHeader: vi.fn((name: string, value: string) => {
+      result.headers[name.toLowerCase()] = value;
+    }),
+    json: vi.fn((body: unknown) => {
+      result.body = body;
+    }),
+    result: () => result,
+  };
+
+  return response as unknown as NextApiResponse & { result(): ConformanceResponse };
+}
+
+type NestController = {
+  trigger(taskId: string, payload: unknown, request: unknown, response: unknown): Promise<unknown>;
+  batch(taskId: string, payload: unknown, request: unknown, response: unknown): Promise<unknown>;
+  retrieveRun(runId: string, request: unknown, response: unknown): Promise<unknown>;
+  runAction(runId: string, action: string, request: unknown, response: unknown): Promise<unknown>;
+};
+
+// The controller sends successes itself, and Nest sends the status of the
+// `HttpException` it threw otherwise.
+const nestHarness: AdapterHarness = {
+  trigger: (options, request) => callNest(options, "trigger", request),
+  batch: (options, request) => callNest(options, "batch", request),
+  run: (options, { runId, action, method, headers = {} }) =>
+    invokeNest({ ...options, runs: true }, (controller, response) =>
+      action
+        ? controller.runAction(runId, action, { method, headers }, response)
+        : controller.retrieveRun(runId, { method, headers }, response),
+    ),
+};
+
+function callNest(
+  options: HandlerOptions,
+  method: "trigger" | "batch",
+  { taskId, payload, headers, method: httpMethod = "POST", ip = "127.0.0.1" }: ConformanceRequest,
+): Promise<ConformanceResponse> {
+  const request = { method: httpMethod, url: `/trigger/${taskId}`, headers: jsonHeaders(headers), params: {}, ip };
+
+  return invokeNest(options, (controller, response) => controller[method](taskId, payload, request, response));
+}
+
+async function invokeNest(
+  options: HandlerOptions & { runs?: boolean },
+  call: (controller: NestController, response: unknown) => Promise<unknown>,
+): Promise<ConformanceResponse> {
+  const Controller = TriggerAdaptersModule.forRoot(options).controllers?.[0] as Type<NestController>;
+  const headers: Record<string, string> = {};
+  const sent: { status?: number; body?: unknown } = {};
+  const response = {
+    header: (name: string, value: string) => {
+      headers[name.toLowerCase()] = value;
+    },
+    status: (status: number) => ({
+      send: (body: unknown) => {
+        Object.assign(sent, { status, body });
+      },
+    }),
+  };
+
+  try {
+    await call(new Controller(options), response);
+
+    return { status: sent.status ?? 0, headers, body: sent.body };
+  } catch (error) {
+    if (error instanceof HttpException) {
+      return { status: error.getStatus(), headers, body: error.getResponse() };
+    }
+
+    throw error;
+  }
+}
+
+export const adapters: [string, AdapterHarness][] = [
+  ["Express", expressHarness],
+  ["Fastify", fastifyHarness],
+  ["Koa", koaHarness],
+  ["Elysia", elysiaHarness],
+  ["Hono", honoHarness],
+  ["SvelteKit", svelteKitHarness],
+  ["Fetch", fetchHarness],
+  ["Next.js App Router", appRouterHarness],
+  ["Next.js Pages Router", pagesRouterHarness],
+  ["NestJS", nestHarness],
+];
+
+function createWebRequest(
+  url: string,
+  { payload, headers, method = "POST", ip = "127.0.0.1" }: Omit<ConformanceRequest, "taskId">,
+) {
+  return new Request(url, {
+    method,
+    headers: { "x-forwarded-for": ip, ...jsonHeaders(headers) },
+    body: method === "GET" ? undefined : JSON.stringify(payload),
+  });
+}
+
+function jsonHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  return { "content-type": "application/json", ...lowercase(headers) };
+}
+
+function lowercase(headers: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+}
+
+async function fromResponse(response: Response): Promise<ConformanceResponse> {
+  return {
+    status: response.status,
+    headers: Object.fromEntries(response.headers),
+    body: await response.json(),
+  };
+}
@@ -0,0 +1,173 @@
+import { Readable } from "node:stream";
+import { describe, expect, it, vi } from "vitest";
+import { readPayload, readRawBody } from "../src/body";
+
+const post = (body: BodyInit, headers: Record<string, string> = {}) => {
+  return new Request("http://localhost/trigger/test-task", { method: "POST", body, headers });
+};
+
+const source = (request: Request) => ({ method: request.method, headers: request.headers, body: request });
+
+// A chunked request body of 1 KB chunks without a Content-Length, counting the
+// chunks that were pulled from it.
+const chunked = (count: number) => {
+  let pulled = 0;
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      pulled++;
+      controller.enqueue(new TextEncoder().encode("x".repeat(1024)));
+
+      if (pulled === count) {
+        controller.close();
+      }
+    },
+  });
+  const request = new Request("http://localhost/trigger/test-task", {
+    method: "POST",
+    body: stream,
+    headers: { "Content-Type": "text/plain" },
+    duplex: "half",
+  } as RequestInit);
+
+  return { request, pulled: () => pulled };
+};
+
+describe("readPayload", () => {
+  it("should read a JSON body", async () => {
+    const request = post('{"email":"a@example.com"}', { "Content-Type": "application/json" });
+
+    await expect(readPayload(source(request))).resolves.toEqual({ email: "a@example.com" });
+  });
+
+  it("should read a body without a content type as JSON", async () => {
+    await expect(readPayload({ headers: new Headers(), body: post("[1,2]") })).resolves.toEqual([1, 2]);
+  });
+
+  it("should reject content types that aren't accepted with a 415", async () => {
+    const request = post("a=1", { "Content-Type": "application/x-www-form-urlencoded" });
+
+    await expect(readPayload(source(request), { types: ["json", "text"] })).rejects.toMatchObject({
+      status: 415,
+      headers: { "Accept-Post": "application/json, text/plain" },
+    });
+  });
+
+  it("should read a form body with repeated fields as arrays", async () => {
+    const request = post("name=Ada&tag=a&tag=b", { "Content-Type": "application/x-www-form-urlencoded" });
+
+    await expect(readPayload(source(request), { types: ["form"] })).resolves.toEqual({ name: "Ada", tag: ["a", "b"] });
+  });
+
+  it("should read a text body", async () => {
+    const request = post("hello", { "Content-Type": "text/plain; charset=utf-8" });
+
+    await expect(readPayload(source(request), { types: ["text"] })).resolves.toBe("hello");
+  });
+
+  it("should read the query string of a GET request", async () => {
+    const query = new URLSearchParams("email=a@example.com&tag=a&tag=b");
+
+    await expect(readPayload({ method: "GET", headers: new Headers(), query }, { types: ["query"] })).resolves.toEqual({
+      email: "a@example.com",
+      tag: ["a", "b"],
+    });
+  });
+
+  it("should reject a GET request unless query payloads are accepted", async () => {
+    await expect(readPayload({ method: "GET", headers: new Headers() })).rejects.toMatchObject({
+      status: 405,
+      headers: { Allow: "POST" },
+    });
+  });
+
+  describe("multipart", () => {
+    const form = () => {
+      const data = new FormData();
+      data.append("name", "Ada");
+      data.append("avatar", new File(["png"], "avatar.png", { type: "image/png" }));
+      return post(data);
+    };
+
+    it("should replace files with what upload returns", async () => {
+      const upload = vi.fn(async (file: File, field: string) => `https://files.example.com/${field}/${file.name}`);
+
+      await expect(readPayload(source(form()), { types: ["multipart"], upload })).resolves.toEqual({
+        name: "Ada",
+        avatar: "https://files.example.com/avatar/avatar.png",
+      });
+      expect(upload).toHaveBeenCalledWith(expect.any(File), "avatar");
+    });
+
+    it("should reject files when there's no upload hook", async () => {
+      await expect(readPayload(source(form()), { types: ["multipart"] })).rejects.toMatchObject({
+        status: 400,
+        code: "upload_not_supported",
+      });
+    });
+
+    it("should upload files of a body the framework already parsed", async () => {
+      const parsed = { avatar: new File(["png"], "avatar.png") };
+      const headers = new Headers({ "Content-Type": "multipart/form-data; boundary=x" });
+
+      await expect(
+        readPayload({ headers, parsed }, { types: ["multipart"], upload: (file) => file.name }),
+      ).resolves.toEqual({ avatar: "avatar.png" });
+    });
+  });
+
+  describe("limit", () => {
+    it("should reject a body with a larger Content-Length with a 413", async () => {
+      const headers = new Headers({ "Content-Length": "2048" });
+
+      await expect(readPayload({ headers, parsed: {} }, { limit: 1024 })).rejects.toMatchObject({
+        status: 413,
+        code: "payload_too_large",
+      });
+    });
+
+    it("should reject a body that turns out larger than the limit", async () => {
+      const request = post(JSON.stringify({ data: "x".repeat(100) }), { "Content-Type": "application/json" });
+
+      await expect(readPayload(source(request), { limit: 50 })).rejects.toMatchObject({ status: 413 });
+    });
+
+    it("should stop reading a Web stream once it passes the limit", async () => {
+      const { request, pulled } = chunked(2048);
+
+      await expect(readPayload(source(request), { types: ["text"], limit: 10 })).rejects.toMatchObject({
+        status: 413,
+      });
+      expect(pulled()).toBeLessThan(5);
+    });
+
+    it("should stop reading a Node.js stream once it passes the limit", async () => {
+      const stream = Readable.from([Buffer.from('{"data":"'), Buffer.from("x".repeat(100)), Buffer.from('"}')]);
+
+      await expect(readPayload({ headers: new Headers(), body: stream }, { limit: 50 })).rejects.toMatchObject({
+        status: 413,
+      });
+    });
+  });
+
+  it("should read a Node.js stream", async () => {
+    const stream = Readable.from([Buffer.from("name=Ada")]);
+    const headers = new Headers({ "Content-Type": "application/x-www-form-urlencoded" });
+
+    await expect(readPayload({ headers, body: stream }, { types: ["form"] })).resolves.toEqual({ name: "Ada" });
+  });
+});
+
+describe("readRawBody", () => {
+  it("should read the body as it was sent", async () => {
+    const request = post('{"ref":"main"}');
+
+    await expect(readRawBody(source(request))).resolves.toBe('{"ref":"main"}');
+  });
+
+  it("should stop reading a Web stream once it passes the limit", async () => {
+    const { request, pulled } = chunked(2048);
+
+    await expect(readRawBody(source(request), 10)).rejects.toMatchObject({ status: 413 });
+    expect(pulled()).toBeLessThan(5);
+  });
+});
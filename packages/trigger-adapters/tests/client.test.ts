@@ -0,0 +1,173 @@
+import { type AnyTask, runs, tasks } from "@trigger.dev/sdk";
+import { describe, expect, it, vi } from "vitest";
+import { createTriggerClient, TriggerClientError, TriggerRateLimitError, TriggerValidationError } from "../src/client";
+import { batchHandler, type FetchHandlerOptions, handler, runHandler } from "../src/fetch";
+import { emailSchema, runSummary } from "./test-utils";
+
+const trigger = vi.mocked(tasks.trigger);
+const batchTrigger = vi.mocked(tasks.batchTrigger);
+
+type EmailTask = { id: "send-email"; payload: { email: string } };
+
+const registeredTasks = [{ id: "send-email" }] as unknown as [EmailTask & AnyTask];
+
+// Serves the trigger, batch and run endpoints without a network.
+const createFetch = (options: FetchHandlerOptions = {}) => {
+  const trigger = handler({ ...options, basePath: "/api/trigger" });
+  const batch = batchHandler({ ...options, basePath: "/api/trigger" });
+  const run = runHandler({ ...options, basePath: "/api/runs" });
+
+  return vi.fn(async (url: string, init: RequestInit) => {
+    const request = new Request(url, init);
+    const { pathname } = new URL(request.url);
+
+    if (pathname.startsWith("/api/runs")) {
+      return run(request);
+    }
+
+    return pathname.endsWith("/batch") ? batch(request) : trigger(request);
+  });
+};
+
+const createClient = (options: FetchHandlerOptions = {}) => {
+  const fetch = createFetch(options);
+  const client = createTriggerClient<typeof registeredTasks>({
+    baseUrl: "http://localhost/api/trigger/",
+    runsUrl: "http://localhost/api/runs",
+    fetch,
+  });
+
+  return { client, fetch };
+};
+
+describe("Trigger client", () => {
+  it("should trigger a task and return the result", async () => {
+    const { client } = createClient();
+
+    const result = await client.trigger("send-email", { email: "a@example.com" });
+
+    expect(trigger).toHaveBeenCalledWith("send-email", { email: "a@example.com" });
+    expect(result).toEqual({
+      taskId: "send-email",
+      payload: { email: "a@example.com" },
+      handle: { id: "run_abc123", publicAccessToken: "test-token", taskIdentifier: "send-email" },
+    });
+  });
+
+  it("should send the idempotency key, trigger options and extra headers", async () => {
+    const { client, fetch } = createClient({ clientOptions: ["delay", "tags"] });
+
+    await client.trigger(
+      "send-email",
+      { email: "a@example.com" },
+      { idempotencyKey: "order-1", options: { delay: "1h", tags: ["web", "signup"] }, headers: { "X-Custom": "1" } },
+    );
+
+    const headers = new Headers(fetch.mock.calls[0][1].headers);
+
+    expect(headers.get("idempotency-key")).toBe("order-1");
+    expect(headers.get("x-trigger-delay")).toBe("1h");
+    expect(headers.get("x-trigger-tags")).toBe("web,signup");
+    expect(headers.get("x-custom")).toBe("1");
+    expect(trigger).toHaveBeenCalledWith(
+      "send-email",
+      { email: "a@example.com" },
+      expect.objectContaining({ delay: "1h", tags: ["web", "signup"] }),
+    );
+  });
+
+  it("should send the default headers with every request", async () => {
+    const fetch = createFetch();
+    const client = createTriggerClient({
+      baseUrl: "http://localhost/api/trigger",
+      headers: async () => ({ Authorization: "Bearer token" }),
+      fetch,
+    });
+
+    await client.trigger("send-email", { email: "a@example.com" });
+
+    expect(new Headers(fetch.mock.calls[0][1].headers).get("authorization")).toBe("Bearer token");
+  });
+
+  it("should trigger a batch", async () => {
+    const { client } = createClient();
+
+    const result = await client.batchTrigger("send-email", [{ email: "a@example.com" }, { email: "b@example.com" }]);
+
+    expect(batchTrigger).toHaveBeenCalledWith("send-email", [
+      { payload: { email: "a@example.com" } },
+      { payload: { email: "b@example.com" } },
+    ]);
+    expect(result.handle).toEqual({ batchId: "batch_abc123", runCount: 2, publicAccessToken: "test-token" });
+  });
+
+  it("should retrieve, cancel and replay runs", async () => {
+    const { client } = createClient();
+
+    await expect(client.retrieveRun("run_abc123")).resolves.toEqual(runSummary("run_abc123"));
+    await expect(client.cancelRun("run_abc123")).resolves.toEqual(runSummary("run_abc123"));
+    await expect(client.replayRun("run_abc123")).resolves.toEqual(runSummary("run_replay123"));
+    expect(runs.cancel).toHaveBeenCalledWith("run_abc123");
+  });
+
+  it("should return the result of a run that failed in wait mode", async () => {
+    vi.mocked(runs.subscribeToRun).mockReturnValueOnce({
+      unsubscribe: vi.fn(),
+      async *[Symbol.asyncIterator]() {
+        yield { ...(await runs.retrieve("run_abc123")), status: "CANCELED", isCompleted: true };
+      },
+    } as unknown as ReturnType<typeof runs.subscribeToRun>);
+    const { client } = createClient();
+
+    const result = await client.trigger("send-email", { email: "a@example.com" }, { mode: "wait" });
+
+    expect(result.run?.status).toBe("CANCELED");
+  });
+
+  describe("errors", () => {
+    it("should throw a TriggerClientError with the problem details", async () => {
+      const { client } = createClient({ tasks: registeredTasks });
+
+      const error = await client
+        .trigger("other-task" as "send-email", { email: "a@example.com" })
+        .catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(TriggerClientError);
+      expect(error).toMatchObject({ status: 404, code: "task_not_found", message: "Task not found" });
+    });
+
+    it("should throw a TriggerValidationError with the issues", async () => {
+      const { client } = createClient({ schemas: { "send-email": emailSchema } });
+
+      const error = await client
+        .trigger("send-email", { email: 42 } as unknown as { email: string })
+        .catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(TriggerValidationError);
+      expect((error as TriggerValidationError).issues).toEqual([{ message: "Expected a string", path: ["email"] }]);
+    });
+
+    it("should throw a TriggerRateLimitError with the retry delay", async () => {
+      const { client } = createClient({ rateLimit: { limit: 1, window: 60_000, key: () => "client" } });
+
+      await client.trigger("send-email", { email: "a@example.com" });
+      const error = await client.trigger("send-email", { email: "a@example.com" }).catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(TriggerRateLimitError);
+      expect((error as TriggerRateLimitError).retryAfter).toBe(60);
+    });
+
+    it("should throw for error responses that aren't problem details", async () => {
+      const client = createTriggerClient({
+        baseUrl: "http://localhost/api/trigger",
+        fetch: async () => new Response("Bad Gateway", { status: 502, statusText: "Bad Gateway" }),
+      });
+
+      await expect(client.trigger("send-email", {})).rejects.toMatchObject({
+        status: 502,
+        code: "http_error",
+        message: "Bad Gateway",
+      });
+    });
+  });
+});
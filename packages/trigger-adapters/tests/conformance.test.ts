@@ -0,0 +1,874 @@
+import { createHmac } from "node:crypto";
+import { type AnyTask, batch, runs, type TriggerOptions, tasks } from "@trigger.dev/sdk";
+import { describe, expect, it, vi } from "vitest";
+import { ForbiddenError } from "../src/errors";
+import { github, slack } from "../src/webhooks";
+import { type AdapterHarness, adapters } from "./adapters";
+import { emailSchema, githubSignature, problem, runSummary } from "./test-utils";
+
+// The behavior every adapter shares, run against each harness in `adapters.ts`.
+
+const trigger = vi.mocked(tasks.trigger);
+const batchTrigger = vi.mocked(tasks.batchTrigger);
+
+const registeredTasks = [{ id: "test-task" }, { id: "other-task" }] as unknown as AnyTask[];
+
+const handle = { id: "run_abc123", taskIdentifier: "test-task", publicAccessToken: "test-token" };
+
+describe.each(adapters)("%s", (_name, adapter) => {
+  it("should trigger task with valid request", async () => {
+    const response = await adapter.trigger({}, { taskId: "test-task", payload: { email: "a@example.com" } });
+
+    expect(trigger).toHaveBeenCalledWith("test-task", { email: "a@example.com" });
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ taskId: "test-task", payload: { email: "a@example.com" }, handle });
+  });
+
+  it("should respond with 400 when the task ID is missing", async () => {
+    const response = await adapter.trigger({}, { taskId: "", payload: { test: "data" } });
+
+    expect(response.status).toBe(400);
+    expect(response.headers["content-type"]).toContain("application/problem+json");
+    expect(response.body).toEqual(problem("Task ID is required", { code: "missing_task_id" }));
+    expect(trigger).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["arrays", [1, 2, 3]],
+    ["null", null],
+    ["booleans", true],
+    ["nested objects", { user: { profile: { settings: { email: true, push: false } } } }],
+  ])("should trigger with %s as the payload", async (_kind, payload) => {
+    const response = await adapter.trigger({}, { taskId: "test-task", payload });
+
+    expect(trigger).toHaveBeenCalledWith("test-task", payload);
+    expect(response.body.payload).toEqual(payload);
+  });
+
+  it("should trigger task IDs with special characters", async () => {
+    await adapter.trigger({}, { taskId: "test-task-123_ABC.v2", payload: {} });
+
+    expect(trigger).toHaveBeenCalledWith("test-task-123_ABC.v2", {});
+  });
+
+  describe("authorize", () => {
+    it("should pass the request to the authorize hook", async () => {
+      const authorize = vi.fn().mockResolvedValue(true);
+
+      const response = await adapter.trigger(
+        { authorize },
+        { taskId: "test-task", payload: { test: "data" }, headers: { authorization: "Bearer token" } },
+      );
+
+      const [request] = authorize.mock.calls[0];
+      expect(request.taskId).toBe("test-task");
+      expect(request.payload).toEqual({ test: "data" });
+      expect(request.headers.get("authorization")).toBe("Bearer token");
+      expect(response.status).toBe(200);
+    });
+
+    it("should respond with 403 when authorize returns false", async () => {
+      const response = await adapter.trigger({ authorize: () => false }, { taskId: "test-task", payload: {} });
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual(problem("Forbidden"));
+      expect(trigger).not.toHaveBeenCalled();
+    });
+
+    it("should respond with the status returned by authorize", async () => {
+      const response = await adapter.trigger(
+        { authorize: async () => ({ status: 401 }) },
+        { taskId: "test-task", payload: {} },
+      );
+
+      expect(response.status).toBe(401);
+      expect(response.body).toEqual(problem("Unauthorized"));
+      expect(trigger).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("tasks", () => {
+    it("should trigger a registered task", async () => {
+      const response = await adapter.trigger({ tasks: registeredTasks }, { taskId: "other-task", payload: {} });
+
+      expect(trigger).toHaveBeenCalledWith("other-task", {});
+      expect(response.status).toBe(200);
+    });
+
+    it("should respond with 404 for an unregistered task", async () => {
+      const response = await adapter.trigger({ tasks: registeredTasks }, { taskId: "unknown-task", payload: {} });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual(problem("Task not found"));
+      expect(trigger).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("schemas", () => {
+    const options = { schemas: { "test-task": emailSchema } };
+
+    it("should trigger with the validated payload", async () => {
+      await adapter.trigger(options, { taskId: "test-task", payload: { email: "TEST@example.com" } });
+
+      expect(trigger).toHaveBeenCalledWith("test-task", { email: "test@example.com" });
+    });
+
+    it("should respond with 422 for an invalid payload", async () => {
+      const response = await adapter.trigger(options, { taskId: "test-task", payload: { email: 42 } });
+
+      expect(response.status).toBe(422);
+      expect(response.body).toEqual(
+        problem("Invalid payload", { issues: [{ message: "Expected a string", path: ["email"] }] }),
+      );
+      expect(trigger).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("body", () => {
+    it("should respond with 415 for a content type that isn't accepted", async () => {
+      const response = await adapter.trigger(
+        {},
+        { taskId: "test-task", payload: "hello", headers: { "content-type": "text/plain" } },
+      );
+
+      expect(response.status).toBe(415);
+      expect(trigger).not.toHaveBeenCalled();
+    });
+
+    it("should respond with 413 for a body over the limit", async () => {
+      const response = await adapter.trigger(
+        { body: { limit: 10 } },
+        { taskId: "test-task", payload: {}, headers: { "content-length": "11" } },
+      );
+
+      expect(response.status).toBe(413);
+      expect(trigger).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("batch", () => {
+    it("should trigger an array body as a batch", async () => {
+      const response = await adapter.batch(
+        {},
+        { taskId: "test-task", payload: [{ email: "a@example.com" }, { email: "b@example.com" }] },
+      );
+
+      expect(batchTrigger).toHaveBeenCalledWith("test-task", [
+        { payload: { email: "a@example.com" } },
+        { payload: { email: "b@example.com" } },
+      ]);
+      expect(trigger).not.toHaveBeenCalled();
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        taskId: "test-task",
+        payloads: [{ email: "a@example.com" }, { email: "b@example.com" }],
+        handle: { batchId: "batch_abc123", runCount: 2, publicAccessToken: "test-token" },
+        items: [
+          { index: 0, ok: true, runId: "run_item0" },
+          { index: 1, ok: true, runId: "run_item1" },
+        ],
+      });
+    });
+
+    it("should report invalid items without failing the batch", async () => {
+      const response = await adapter.batch(
+        { schemas: { "test-task": emailSchema } },
+        { taskId: "test-task", payload: [{ email: "A@example.com" }, { email: 42 }] },
+      );
+
+      expect(batchTrigger).toHaveBeenCalledWith("test-task", [{ payload: { email: "a@example.com" } }]);
+      expect(response.status).toBe(200);
+      expect(response.body.items).toEqual([
+        { index: 0, ok: true, runId: "run_item0" },
+        { index: 1, ok: false, issues: [{ message: "Expected a string", path: ["email"] }] },
+      ]);
+    });
+
+    it("should map each run back to the item it was triggered for", async () => {
+      const response = await adapter.batch(
+        { schemas: { "test-task": emailSchema } },
+        {
+          taskId: "test-task",
+          payload: [{ email: 1 }, { email: "a@example.com" }, { email: 2 }, { email: "b@example.com" }],
+        },
+      );
+
+      expect(batch.retrieve).toHaveBeenCalledWith("batch_abc123");
+      expect(response.body.items).toMatchObject([
+        { index: 0, ok: false },
+        { index: 1, ok: true, runId: "run_item0" },
+        { index: 2, ok: false },
+        { index: 3, ok: true, runId: "run_item1" },
+      ]);
+    });
+
+    it("should leave out run IDs when the batch can't be retrieved", async () => {
+      vi.mocked(batch.retrieve).mockRejectedValueOnce(new Error("Service unavailable"));
+
+      const response = await adapter.batch({}, { taskId: "test-task", payload: [{}, {}] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.items).toEqual([
+        { index: 0, ok: true },
+        { index: 1, ok: true },
+      ]);
+    });
+
+    it("should respond with 400 when the body is not an array", async () => {
+      const response = await adapter.batch({}, { taskId: "test-task", payload: { email: "a@example.com" } });
+
+      expect(batchTrigger).not.toHaveBeenCalled();
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual(problem("Batch payload must be a non-empty array"));
+    });
+
+    it("should apply envelope options to every item", async () => {
+      await adapter.batch(
+        { envelope: true, clientOptions: ["tags"] },
+        { taskId: "test-task", payload: { payload: [{ n: 1 }, { n: 2 }], options: { tags: ["bulk"] } } },
+      );
+
+      expect(batchTrigger).toHaveBeenCalledWith("test-task", [
+        { payload: { n: 1 }, options: { tags: ["bulk"] } },
+        { payload: { n: 2 }, options: { tags: ["bulk"] } },
+      ]);
+    });
+  });
+
+  describe("trigger options", () => {
+    it("should merge allowed options from headers with the task's defaults", async () => {
+      const response = await adapter.trigger(
+        { triggerOptions: { "test-task": { tags: ["server"] } }, clientOptions: ["delay", "tags"] },
+        { taskId: "test-task", payload: {}, headers: { "x-trigger-delay": "1h", "x-trigger-tags": "a,b" } },
+      );
+
+      expect(trigger).toHaveBeenCalledWith("test-task", {}, { delay: "1h", tags: ["server", "a", "b"] });
+      expect(response.body.options).toEqual({ delay: "1h", tags: ["server", "a", "b"] });
+    });
+
+    it("should reject options that are not allowed", async () => {
+      const response = await adapter.trigger(
+        { clientOptions: ["delay"] },
+        { taskId: "test-task", payload: {}, headers: { "x-trigger-queue": "priority" } },
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual(problem('Trigger option "queue" is not allowed'));
+      expect(trigger).not.toHaveBeenCalled();
+    });
+
+    it("should read the payload and options from an envelope", async () => {
+      await adapter.trigger(
+        { envelope: true, clientOptions: ["ttl"] },
+        { taskId: "test-task", payload: { payload: { test: "data" }, options: { ttl: "10m" } } },
+      );
+
+      expect(trigger).toHaveBeenCalledWith("test-task", { test: "data" }, { ttl: "10m" });
+    });
+
+    it("should reject bodies that are not an envelope", async () => {
+      const response = await adapter.trigger({ envelope: true }, { taskId: "test-task", payload: { test: "data" } });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual(problem("Request body must be a { payload, options } envelope"));
+      expect(trigger).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("idempotency", () => {
+    it("should pass the Idempotency-Key header as the run's idempotency key", async () => {
+      const response = await adapter.trigger(
+        { idempotency: { ttl: "1h" } },
+        { taskId: "test-task", payload: {}, headers: { "idempotency-key": "order-1" } },
+      );
+
+      expect(trigger).toHaveBeenCalledWith("test-task", {}, { idempotencyKey: "order-1", idempotencyKeyTTL: "1h" });
+      expect(response.body.idempotency).toEqual({ key: "order-1", created: true });
+    });
+
+    it("should not set an idempotency key without the header", async () => {
+      const response = await adapter.trigger({ idempotency: { ttl: "1h" } }, { taskId: "test-task", payload: {} });
+
+      expect(trigger).toHaveBeenCalledWith("test-task", {});
+      expect(response.body.idempotency).toBeUndefined();
+    });
+
+    it("should scope the key to the caller", async () => {
+      const response = await adapter.trigger(
+        { idempotency: { scope: ({ headers }) => headers.get("x-user-id") ?? undefined } },
+        { taskId: "test-task", payload: {}, headers: { "idempotency-key": "order-1", "x-user-id": "user_1" } },
+      );
+
+      expect(trigger).toHaveBeenCalledWith("test-task", {}, { idempotencyKey: ["user_1", "order-1"] });
+      expect(response.body.options).toBeUndefined();
+    });
+
+    it("should signal when an existing run was returned", async () => {
+      // biome-ignore lint/suspicious/noExplicitAny: the SDK doesn't type `isCached` on the handle
+      trigger.mockResolvedValueOnce({ ...handle, isCached: true } as any);
+
+      const response = await adapter.trigger(
+        {},
+        { taskId: "test-task", payload: {}, headers: { "idempotency-key": "order-1" } },
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.idempotency).toEqual({ key: "order-1", created: false });
+    });
+
+    it("should report the options the run was triggered with, with or without the header", async () => {
+      const options = {
+        idempotency: { ttl: "1h" },
+        beforeTrigger: ({ options }: { options?: TriggerOptions }) => ({ ...options, tags: ["hooked"] }),
+      };
+
+      const plain = await adapter.trigger(options, { taskId: "test-task", payload: {} });
+      const keyed = await adapter.trigger(options, {
+        taskId: "test-task",
+        payload: {},
+        headers: { "idempotency-key": "order-1" },
+      });
+
+      expect(trigger).toHaveBeenLastCalledWith(
+        "test-task",
+        {},
+        { idempotencyKey: "order-1", idempotencyKeyTTL: "1h", tags: ["hooked"] },
+      );
+      expect(plain.body.options).toEqual({ tags: ["hooked"] });
+      expect(keyed.body.options).toEqual({ tags: ["hooked"] });
+    });
+  });
+
+  describe("wait mode", () => {
+    it("should respond with the run's output once it completes", async () => {
+      const response = await adapter.trigger({ mode: "wait" }, { taskId: "test-task", payload: {} });
+
+      expect(runs.subscribeToRun).toHaveBeenCalledWith("run_abc123");
+      expect(response.status).toBe(200);
+      expect(response.body.run).toEqual(runSummary("run_abc123"));
+    });
+
+    it("should wait only for the tasks configured to", async () => {
+      const response = await adapter.trigger({ mode: { "other-task": "wait" } }, { taskId: "test-task", payload: {} });
+
+      expect(runs.subscribeToRun).not.toHaveBeenCalled();
+      expect(response.body.run).toBeUndefined();
+    });
+
+    it("should let the client pick the mode with a header", async () => {
+      const response = await adapter.trigger(
+        {},
+        { taskId: "test-task", payload: {}, headers: { "x-trigger-mode": "wait" } },
+      );
+
+      expect(response.body.run).toEqual(runSummary("run_abc123"));
+    });
+
+    it("should respond with a 500 and the task error when the run fails", async () => {
+      vi.mocked(runs.subscribeToRun).mockReturnValueOnce({
+        unsubscribe: vi.fn(),
+        async *[Symbol.asyncIterator]() {
+          yield {
+            ...(await runs.retrieve("run_abc123")),
+            status: "FAILED",
+            output: undefined,
+            error: { name: "Error", message: "Mailbox full" },
+            isCompleted: true,
+          };
+        },
+        // biome-ignore lint/suspicious/noExplicitAny: needed
+      } as any);
+
+      const response = await adapter.trigger({ mode: "wait" }, { taskId: "test-task", payload: {} });
+
+      expect(response.status).toBe(500);
+      expect(response.body.run).toMatchObject({ status: "FAILED", error: { name: "Error", message: "Mailbox full" } });
+    });
+
+    it("should respond with a 202 and a status URL when the timeout passes", async () => {
+      vi.useFakeTimers();
+      vi.mocked(runs.subscribeToRun).mockImplementationOnce(() => {
+        let stop: () => void = () => {};
+        const stopped = new Promise<void>((resolve) => {
+          stop = resolve;
+        });
+
+        return {
+          unsubscribe: vi.fn(() => stop()),
+          // biome-ignore lint/correctness/useYield: ends without an update once unsubscribed
+          async *[Symbol.asyncIterator]() {
+            await stopped;
+          },
+          // biome-ignore lint/suspicious/noExplicitAny: needed
+        } as any;
+      });
+
+      try {
+        const responding = adapter.trigger(
+          { mode: "wait", wait: { timeout: 1000, statusPath: "/api/runs/" } },
+          { taskId: "test-task", payload: {} },
+        );
+        await vi.advanceTimersByTimeAsync(1000);
+        const response = await responding;
+
+        expect(response.status).toBe(202);
+        expect(response.body).toMatchObject({ taskId: "test-task", statusUrl: "/api/runs/run_abc123" });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should reject unknown modes", async () => {
+      const response = await adapter.trigger(
+        {},
+        { taskId: "test-task", payload: {}, headers: { "x-trigger-mode": "later" } },
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual(problem('Trigger mode must be "async" or "wait"'));
+      expect(trigger).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("stream", () => {
+    it("should respond with JSON when the client doesn't accept an event stream", async () => {
+      const response = await adapter.trigger({ stream: true }, { taskId: "test-task", payload: {} });
+
+      expect(response.status).toBe(200);
+      expect(response.body.handle).toEqual(handle);
+      expect(runs.subscribeToRun).not.toHaveBeenCalled();
+    });
+
+    it("should not stream unless enabled", async () => {
+      const response = await adapter.trigger(
+        {},
+        { taskId: "test-task", payload: {}, headers: { accept: "text/event-stream" } },
+      );
+
+      expect(response.body.handle).toEqual(handle);
+      expect(runs.subscribeToRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("serializeResult", () => {
+    it("should send only the run ID and set the Location header", async () => {
+      const response = await adapter.trigger(
+        { serializeResult: "minimal", successStatus: 202, location: (runId) => `/runs/${runId}` },
+        { taskId: "test-task", payload: {} },
+      );
+
+      expect(response.status).toBe(202);
+      expect(response.headers.location).toBe("/runs/run_abc123");
+      expect(response.body).toEqual({ runId: "run_abc123" });
+    });
+
+    it("should send the batch ID and items for batches", async () => {
+      const response = await adapter.batch({ serializeResult: "minimal" }, { taskId: "test-task", payload: [{}] });
+
+      expect(response.body).toEqual({ batchId: "batch_abc123", items: [{ index: 0, ok: true, runId: "run_item0" }] });
+    });
+
+    it("should send the handle without the payload with the handle preset", async () => {
+      const response = await adapter.trigger({ serializeResult: "handle" }, { taskId: "test-task", payload: {} });
+
+      expect(response.body).toEqual({ handle });
+    });
+
+    it("should keep the idempotency outcome with every preset", async () => {
+      const response = await adapter.trigger(
+        { serializeResult: "minimal" },
+        { taskId: "test-task", payload: {}, headers: { "idempotency-key": "order-1" } },
+      );
+
+      expect(response.body).toEqual({ runId: "run_abc123", idempotency: { key: "order-1", created: true } });
+    });
+
+    it("should build the body with a custom serializer", async () => {
+      const response = await adapter.trigger(
+        { serializeResult: (result) => ({ id: "handle" in result ? result.handle.id : undefined }) },
+        { taskId: "test-task", payload: {} },
+      );
+
+      expect(response.body).toEqual({ id: "run_abc123" });
+    });
+  });
+
+  describe("mapPayload", () => {
+    it("should validate the mapped payload", async () => {
+      const response = await adapter.trigger(
+        { schemas: { "test-task": emailSchema }, mapPayload: ({ headers }) => ({ email: headers.get("x-email") }) },
+        { taskId: "test-task", payload: {} },
+      );
+
+      expect(response.status).toBe(422);
+      expect(trigger).not.toHaveBeenCalled();
+    });
+
+    it("should map each item of a batch", async () => {
+      await adapter.batch(
+        { mapPayload: ({ body }) => ({ email: body }) },
+        { taskId: "test-task", payload: ["a@example.com", "b@example.com"] },
+      );
+
+      expect(batchTrigger).toHaveBeenCalledWith("test-task", [
+        { payload: { email: "a@example.com" } },
+        { payload: { email: "b@example.com" } },
+      ]);
+    });
+  });
+
+  describe("errors", () => {
+    it("should respond with problem details when the SDK fails", async () => {
+      trigger.mockRejectedValueOnce(new Error("API error"));
+
+      const response = await adapter.trigger({}, { taskId: "test-task", payload: {} });
+
+      expect(response.status).toBe(502);
+      expect(response.body).toEqual({
+        type: "about:blank",
+        title: "Bad Gateway",
+        status: 502,
+        detail: "Trigger.dev request failed",
+        code: "upstream_error",
+      });
+    });
+
+    it("should answer errors thrown by hooks with a 500", async () => {
+      const response = await adapter.trigger(
+        {
+          authorize: () => {
+            throw new Error("Session store unavailable");
+          },
+        },
+        { taskId: "test-task", payload: {} },
+      );
+
+      expect(response.status).toBe(500);
+      expect(response.body).toEqual(problem("Internal server error", { code: "internal_error" }));
+    });
+
+    it("should pass errors and the request to onError", async () => {
+      const error = new Error("API error");
+      trigger.mockRejectedValueOnce(error);
+      const onError = vi.fn();
+
+      await adapter.trigger({ onError }, { taskId: "test-task", payload: { test: "data" } });
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 502, cause: error }),
+        expect.objectContaining({ taskId: "test-task", payload: { test: "data" } }),
+      );
+    });
+
+    it("should send the response returned by onError", async () => {
+      const response = await adapter.trigger(
+        { tasks: registeredTasks, onError: (error) => ({ status: error.status, body: { message: error.message } }) },
+        { taskId: "unknown-task", payload: {} },
+      );
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ message: "Task not found" });
+    });
+  });
+
+  describe("rateLimit", () => {
+    it("should respond with 429 and rate limit headers once the limit is used up", async () => {
+      const options = { rateLimit: { limit: 1, window: 60_000 } };
+
+      await adapter.trigger(options, { taskId: "test-task", payload: {}, ip: "10.0.0.1" });
+      const response = await adapter.trigger(options, { taskId: "test-task", payload: {}, ip: "10.0.0.1" });
+
+      expect(trigger).toHaveBeenCalledTimes(1);
+      expect(response.status).toBe(429);
+      expect(response.headers).toMatchObject({
+        "ratelimit-limit": "1",
+        "ratelimit-remaining": "0",
+        "retry-after": "60",
+      });
+      expect(response.body).toEqual(problem("Too many requests", { code: "rate_limited" }));
+    });
+
+    it("should count each client IP separately", async () => {
+      const options = { rateLimit: { limit: 1, window: 60_000 } };
+
+      const first = await adapter.trigger(options, { taskId: "test-task", payload: {}, ip: "10.0.0.1" });
+      const second = await adapter.trigger(options, { taskId: "test-task", payload: {}, ip: "10.0.0.2" });
+      const repeated = await adapter.trigger(options, { taskId: "test-task", payload: {}, ip: "10.0.0.1" });
+
+      expect([first.status, second.status, repeated.status]).toEqual([200, 200, 429]);
+      expect(trigger).toHaveBeenCalledTimes(2);
+    });
+
+    it("should apply per-task limits and skip tasks set to false", async () => {
+      const options = {
+        rateLimit: {
+          limit: 1,
+          window: 60_000,
+          key: ({ headers }: { headers: Headers }) => headers.get("x-user-id") ?? undefined,
+          tasks: { "test-task": { limit: 2, window: 60_000 }, "other-task": false as const },
+        },
+      };
+      const request = (taskId: string) => ({ taskId, payload: {}, headers: { "x-user-id": "user_1" } });
+
+      for (let i = 0; i < 3; i++) {
+        await adapter.trigger(options, request("other-task"));
+      }
+
+      await adapter.trigger(options, request("test-task"));
+      await adapter.trigger(options, request("test-task"));
+      const response = await adapter.trigger(options, request("test-task"));
+
+      expect(trigger).toHaveBeenCalledTimes(5);
+      expect(response.status).toBe(429);
+    });
+
+    it("should use a custom store", async () => {
+      const consume = vi.fn().mockResolvedValue({ allowed: false, remaining: 0, reset: 1000 });
+
+      const response = await adapter.trigger(
+        { rateLimit: { limit: 5, window: 1000, key: () => "user_1", store: { consume } } },
+        { taskId: "test-task", payload: {} },
+      );
+
+      expect(consume).toHaveBeenCalledWith("user_1", { limit: 5, window: 1000 });
+      expect(response.status).toBe(429);
+      expect(trigger).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("lifecycle hooks", () => {
+    it("should call the hooks in order around the trigger", async () => {
+      const calls: string[] = [];
+      const onRequest = vi.fn(() => {
+        calls.push("onRequest");
+      });
+      const beforeTrigger = vi.fn(() => {
+        calls.push("beforeTrigger");
+        return undefined;
+      });
+      const afterTrigger = vi.fn(() => {
+        calls.push("afterTrigger");
+      });
+
+      const response = await adapter.trigger(
+        {
+          tasks: registeredTasks,
+          triggerOptions: { "test-task": { tags: ["web"] } },
+          onRequest,
+          beforeTrigger,
+          afterTrigger,
+        },
+        { taskId: "test-task", payload: { email: "a@example.com" } },
+      );
+
+      expect(response.status).toBe(200);
+      expect(calls).toEqual(["onRequest", "beforeTrigger", "afterTrigger"]);
+      expect(onRequest).toHaveBeenCalledWith(expect.objectContaining({ taskId: "test-task" }));
+      expect(beforeTrigger).toHaveBeenCalledWith(
+        expect.objectContaining({
+          taskId: "test-task",
+          payload: { email: "a@example.com" },
+          batch: false,
+          options: { tags: ["web"] },
+        }),
+      );
+      expect(afterTrigger).toHaveBeenCalledWith(
+        expect.objectContaining({ handle: expect.objectContaining({ id: "run_abc123" }) }),
+        expect.objectContaining({ taskId: "test-task" }),
+      );
+    });
+
+    it("should trigger with the options beforeTrigger returns", async () => {
+      await adapter.trigger(
+        { beforeTrigger: ({ options }) => ({ ...options, tags: ["hooked"] }) },
+        { taskId: "test-task", payload: { email: "a@example.com" } },
+      );
+
+      expect(trigger).toHaveBeenCalledWith("test-task", { email: "a@example.com" }, { tags: ["hooked"] });
+    });
+
+    it("should answer with the error onRequest throws", async () => {
+      const onError = vi.fn();
+      const afterTrigger = vi.fn();
+
+      const response = await adapter.trigger(
+        {
+          onRequest: () => {
+            throw new ForbiddenError("Suspended");
+          },
+          afterTrigger,
+          onError,
+        },
+        { taskId: "test-task", payload: {} },
+      );
+
+      expect(response.status).toBe(403);
+      expect(trigger).not.toHaveBeenCalled();
+      expect(afterTrigger).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: "forbidden" }),
+        expect.objectContaining({ taskId: "test-task" }),
+      );
+    });
+  });
+
+  describe("runs", () => {
+    it("should return a summary of the run", async () => {
+      const response = await adapter.run({}, { runId: "run_abc123", method: "GET" });
+
+      expect(runs.retrieve).toHaveBeenCalledWith("run_abc123");
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(runSummary("run_abc123"));
+    });
+
+    it("should cancel the run", async () => {
+      const response = await adapter.run({}, { runId: "run_abc123", action: "cancel", method: "POST" });
+
+      expect(runs.cancel).toHaveBeenCalledWith("run_abc123");
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(runSummary("run_abc123"));
+    });
+
+    it("should replay the run and return the new run", async () => {
+      const response = await adapter.run({}, { runId: "run_abc123", action: "replay", method: "POST" });
+
+      expect(runs.replay).toHaveBeenCalledWith("run_abc123");
+      expect(response.body).toEqual(runSummary("run_replay123"));
+    });
+
+    it("should return 405 when the method doesn't match the action", async () => {
+      const response = await adapter.run({}, { runId: "run_abc123", action: "cancel", method: "GET" });
+
+      expect(response.status).toBe(405);
+      expect(runs.cancel).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for runs the SDK can't find", async () => {
+      vi.mocked(runs.retrieve).mockRejectedValueOnce(Object.assign(new Error("Not found"), { status: 404 }));
+
+      const response = await adapter.run({}, { runId: "run_missing", method: "GET" });
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual(problem("Run not found"));
+    });
+
+    it("should return 502 when the SDK fails", async () => {
+      vi.mocked(runs.retrieve).mockRejectedValueOnce(new Error("API error"));
+
+      const response = await adapter.run({}, { runId: "run_abc123", method: "GET" });
+
+      expect(response.status).toBe(502);
+      expect(response.body).toEqual(problem("Trigger.dev request failed"));
+    });
+
+    it("should return 404 for runs of tasks that aren't exposed", async () => {
+      const response = await adapter.run(
+        { tasks: [{ id: "other-task" }] as unknown as AnyTask[] },
+        { runId: "run_abc123", action: "cancel", method: "POST" },
+      );
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual(problem("Run not found"));
+      expect(runs.cancel).not.toHaveBeenCalled();
+    });
+
+    it("should authorize with the run ID and action before looking the run up", async () => {
+      const authorize = vi.fn().mockReturnValue(false);
+
+      const response = await adapter.run(
+        { authorize },
+        { runId: "run_abc123", action: "replay", method: "POST", headers: { authorization: "Bearer token" } },
+      );
+
+      expect(authorize).toHaveBeenCalledWith(expect.objectContaining({ run: { id: "run_abc123", action: "replay" } }));
+      expect(authorize.mock.calls[0][0].headers.get("authorization")).toBe("Bearer token");
+      expect(response.status).toBe(403);
+      expect(runs.retrieve).not.toHaveBeenCalled();
+      expect(runs.replay).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe.each(adapters.filter(([, adapter]) => adapter.createHandler))("%s without a client IP", (_name, adapter) => {
+  it("should require a rate limit key when the handler is built", () => {
+    expect(() => adapter.createHandler?.({ rateLimit: { limit: 1, window: 60_000 } })).toThrow(
+      /^rateLimit\.key is required/,
+    );
+  });
+});
+
+describe.each(adapters.filter((entry): entry is [string, Required<AdapterHarness>] => !!entry[1].webhook))(
+  "%s webhooks",
+  (_name, adapter) => {
+    const body = JSON.stringify({ ref: "refs/heads/main" });
+    const options = { provider: github({ secret: "gh_secret" }), events: { push: "test-task" } };
+
+    const headers = (overrides: Record<string, string> = {}) => ({
+      "content-type": "application/json",
+      "x-hub-signature-256": githubSignature("gh_secret", body),
+      "x-github-event": "push",
+      "x-github-delivery": "delivery_1",
+      ...overrides,
+    });
+
+    it("should trigger the task mapped to the event with the delivery as idempotency key", async () => {
+      const response = await adapter.webhook(options, { body, headers: headers() });
+
+      expect(trigger).toHaveBeenCalledWith("test-task", { ref: "refs/heads/main" }, { idempotencyKey: "delivery_1" });
+      expect(response.status).toBe(200);
+    });
+
+    it("should reject invalid signatures", async () => {
+      const response = await adapter.webhook(options, {
+        body,
+        headers: headers({ "x-hub-signature-256": githubSignature("wrong", body) }),
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.body).toEqual(problem("Invalid webhook signature", { code: "invalid_signature" }));
+      expect(trigger).not.toHaveBeenCalled();
+    });
+
+    it("should acknowledge events that aren't mapped to a task", async () => {
+      const response = await adapter.webhook(options, { body, headers: headers({ "x-github-event": "star" }) });
+
+      expect(response.status).toBe(202);
+      expect(response.body).toEqual({ event: "star", ignored: true });
+      expect(trigger).not.toHaveBeenCalled();
+    });
+
+    it("should validate the event against the task's schema", async () => {
+      const invalid = JSON.stringify({ email: 42 });
+
+      const response = await adapter.webhook(
+        { ...options, schemas: { "test-task": emailSchema } },
+        { body: invalid, headers: headers({ "x-hub-signature-256": githubSignature("gh_secret", invalid) }) },
+      );
+
+      expect(response.status).toBe(422);
+      expect(trigger).not.toHaveBeenCalled();
+    });
+
+    it("should answer Slack URL verification without triggering", async () => {
+      const verification = JSON.stringify({ type: "url_verification", challenge: "challenge_abc" });
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const signature = createHmac("sha256", "slack_secret").update(`v0:${timestamp}:${verification}`).digest("hex");
+
+      const response = await adapter.webhook(
+        { provider: slack({ secret: "slack_secret" }), events: {} },
+        {
+          body: verification,
+          headers: {
+            "content-type": "application/json",
+            "x-slack-signature": `v0=${signature}`,
+            "x-slack-request-timestamp": timestamp,
+          },
+        },
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ challenge: "challenge_abc" });
+      expect(trigger).not.toHaveBeenCalled();
+    });
+  },
+);
@@ -0,0 +1,60 @@
+import { tasks } from "@trigger.dev/sdk";
+import { describe, expect, it, vi } from "vitest";
+import { type ElysiaContext, handler, webhookHandler } from "../src/elysia";
+import { github } from "../src/webhooks";
+import { parseEvents, runSummary } from "./test-utils";
+
+const createContext = (
+  id: string,
+  payload: unknown,
+  headers: Record<string, string> = {},
+  store: Record<string, unknown> = {},
+): ElysiaContext => {
+  return {
+    params: id ? { id } : {},
+    body: payload,
+    request: new Request(`http://localhost/trigger/${id}?channel=general`, { method: "POST", headers }),
+    set: { headers: {} },
+    store,
+  } as unknown as ElysiaContext;
+};
+
+const trigger = vi.mocked(tasks.trigger);
+
+describe("Elysia Adapter", () => {
+  it("should build the payload from the query and the store", async () => {
+    const context = createContext("test-task", { message: "hi" }, {}, { userId: "user_1" });
+
+    await handler({
+      mapPayload: ({ body, query, locals }) => ({
+        message: (body as { message: string }).message,
+        channel: query.get("channel"),
+        userId: locals.userId,
+      }),
+    })(context);
+
+    expect(trigger).toHaveBeenCalledWith("test-task", { message: "hi", channel: "general", userId: "user_1" });
+  });
+
+  it("should respond with a streaming Response", async () => {
+    const context = createContext("test-task", { test: "data" }, { Accept: "text/event-stream" });
+
+    const response = (await handler({ stream: true })(context)) as Response;
+
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(parseEvents(await response.text()).at(-1)).toEqual({ event: "done", data: runSummary("run_abc123") });
+  });
+
+  it("should fail webhooks whose body Elysia already parsed", async () => {
+    const onError = vi.fn();
+    const context = createContext("", { ref: "refs/heads/main" }, { "x-github-event": "push" });
+
+    await webhookHandler({ provider: github({ secret: "gh_secret" }), events: { push: "test-task" }, onError })(
+      context,
+    );
+
+    expect(context.set.status).toBe(500);
+    expect(onError.mock.calls[0][0].cause.message).toMatch("raw request body");
+    expect(trigger).not.toHaveBeenCalled();
+  });
+});
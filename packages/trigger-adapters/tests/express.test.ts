@@ -1,174 +1,128 @@
+import { Readable } from "node:stream";
 import { tasks } from "@trigger.dev/sdk";
 import type { Request, Response } from "express";
 import { describe, expect, it, vi } from "vitest";
-import { handler } from "../src/express";
+import { handler, runHandler, webhookHandler } from "../src/express";
+import { github } from "../src/webhooks";
+import { createEventStreamTarget, githubSignature, parseEvents, problem } from "./test-utils";
 
-const createRequest = (id: string, payload: unknown): Request => {
+const createRequest = (id: string, payload: unknown, headers: Record<string, string> = {}): Request => {
   return {
     params: id ? { id } : {},
     body: payload,
+    headers,
   } as unknown as Request;
 };
 
-const res = {
-  send: vi.fn(),
-  status: vi.fn().mockReturnThis(),
-  json: vi.fn(),
-} as unknown as Response;
+const createResponse = () => {
+  return {
+    send: vi.fn(),
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn(),
+    set: vi.fn(),
+  } as unknown as Response;
+};
+
+const createRunRequest = (method: string, params: Record<string, string>, headers: Record<string, string> = {}) => {
+  return { method, params, headers } as unknown as Request;
+};
 
 const trigger = vi.mocked(tasks.trigger);
 
 describe("Express Adapter", () => {
-  it("should trigger task with valid request", async () => {
-    const req = createRequest("test-task", {
-      name: "Test User",
-      email: "test@example.com",
-    });
-
-    await handler()(req, res);
+  describe("runs", () => {
+    it("should return 404 for unknown actions", async () => {
+      const res = createResponse();
 
-    expect(trigger).toHaveBeenCalledWith("test-task", {
-      name: "Test User",
-      email: "test@example.com",
-    });
-
-    expect(res.send).toHaveBeenCalledWith({
-      taskId: "test-task",
-      payload: {
-        name: "Test User",
-        email: "test@example.com",
-      },
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
-    });
-  });
+      await runHandler()(createRunRequest("POST", { runId: "run_abc123", action: "delete" }), res);
 
-  it("should handle missing task ID", async () => {
-    const req = createRequest(undefined as unknown as string, {
-      test: "data",
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.send).toHaveBeenCalledWith(problem("Not found"));
     });
-
-    await handler()(req, res);
-
-    expect(res.status).toHaveBeenCalledWith(400);
-    expect(res.json).toHaveBeenCalledWith({ error: "Task ID is required" });
-    expect(trigger).not.toHaveBeenCalled();
   });
 
-  it("should handle array payload", async () => {
-    const req = createRequest("test-task", [1, 2, 3]);
+  describe("stream", () => {
+    it("should stream run updates with res.write", async () => {
+      const req = createRequest("test-task", { test: "data" }, { accept: "text/event-stream" });
+      const res = Object.assign(createResponse(), createEventStreamTarget());
 
-    await handler()(req, res);
+      await handler({ stream: true })(req, res);
 
-    expect(trigger).toHaveBeenCalledWith("test-task", [1, 2, 3]);
-    expect(res.send).toHaveBeenCalledWith({
-      taskId: "test-task",
-      payload: [1, 2, 3],
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
+      expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({ "Content-Type": "text/event-stream" }));
+      expect(parseEvents(res.text()).map(({ event }) => event)).toEqual(["trigger", "update", "update", "done"]);
+      expect(res.end).toHaveBeenCalled();
+      expect(res.send).not.toHaveBeenCalled();
     });
   });
 
-  it("should handle deeply nested objects", async () => {
-    const payload = {
-      user: {
-        profile: {
-          settings: {
-            notifications: {
-              email: true,
-              push: false,
-            },
-          },
-        },
-      },
-    };
-
-    const req = createRequest("test-task", payload);
-
-    await handler()(req, res);
-    expect(res.send).toHaveBeenCalledWith({
-      taskId: "test-task",
-      payload: payload,
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
-    });
-  });
-
-  it("should handle special characters in task ID", async () => {
-    const req = createRequest("test-task-123_ABC", { test: "data" });
-
-    await handler()(req, res);
-
-    expect(trigger).toHaveBeenCalledWith("test-task-123_ABC", {
-      test: "data",
-    });
-    expect(res.send).toHaveBeenCalledWith({
-      taskId: "test-task-123_ABC",
-      payload: { test: "data" },
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task-123_ABC",
-      },
+  describe("mapPayload", () => {
+    it("should trigger with the payload built from the request context", async () => {
+      const req = Object.assign(createRequest("test-task", { message: "hi" }, { "x-tenant": "acme" }), {
+        originalUrl: "/trigger/test-task?channel=general",
+      });
+      const res = Object.assign(createResponse(), { locals: { userId: "user_1" } });
+
+      await handler({
+        mapPayload: ({ taskId, body, query, params, headers, locals }) => ({
+          taskId,
+          params,
+          message: (body as { message: string }).message,
+          channel: query.get("channel"),
+          tenant: headers.get("x-tenant"),
+          userId: locals.userId,
+        }),
+      })(req, res);
+
+      expect(trigger).toHaveBeenCalledWith("test-task", {
+        taskId: "test-task",
+        params: { id: "test-task" },
+        message: "hi",
+        channel: "general",
+        tenant: "acme",
+        userId: "user_1",
+      });
     });
   });
 
-  it("should handle null payload", async () => {
-    const req = createRequest("test-task", null);
+  describe("body", () => {
+    it("should read the request stream when no body parser is mounted", async () => {
+      const req = Object.assign(Readable.from([Buffer.from("email=a@example.com")]), {
+        method: "POST",
+        params: { id: "test-task" },
+        headers: { "content-type": "application/x-www-form-urlencoded" },
+      }) as unknown as Request;
+      const res = createResponse();
 
-    await handler()(req, res);
+      await handler({ body: { types: ["form"] } })(req, res);
 
-    expect(trigger).toHaveBeenCalledWith("test-task", null);
-    expect(res.send).toHaveBeenCalledWith({
-      taskId: "test-task",
-      payload: null,
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
+      expect(trigger).toHaveBeenCalledWith("test-task", { email: "a@example.com" });
+      expect(res.status).toHaveBeenCalledWith(200);
     });
   });
 
-  it("should pass through to next middleware on success", async () => {
-    const req = createRequest("test-task", { test: "data" });
-
-    await handler()(req, res);
-
-    expect(res.send).toHaveBeenCalledWith({
-      taskId: "test-task",
-      payload: { test: "data" },
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
-    });
-  });
+  describe("webhooks", () => {
+    const body = JSON.stringify({ ref: "refs/heads/main" });
+    const options = { provider: github({ secret: "gh_secret" }), events: { push: "test-task" } };
+
+    const createWebhookRequest = (rawBody: unknown, headers: Record<string, string> = {}) =>
+      ({
+        body: rawBody,
+        headers: {
+          "x-hub-signature-256": githubSignature("gh_secret", body),
+          "x-github-event": "push",
+          "x-github-delivery": "delivery_1",
+          ...headers,
+        },
+      }) as unknown as Request;
 
-  it("should handle boolean payloads", async () => {
-    const req = createRequest("test-task", true);
+    it("should fail when a body parser already consumed the raw body", async () => {
+      const onError = vi.fn();
+      const res = createResponse();
 
-    await handler()(req, res);
+      await webhookHandler({ ...options, onError })(createWebhookRequest(JSON.parse(body)), res);
 
-    expect(trigger).toHaveBeenCalledWith("test-task", true);
-    expect(res.send).toHaveBeenCalledWith({
-      taskId: "test-task",
-      payload: true,
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
+      expect(res.status).toHaveBeenCalledWith(500);
+      expect(onError.mock.calls[0][0].cause.message).toMatch("raw request body");
     });
   });
 });
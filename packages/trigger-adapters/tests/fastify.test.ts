@@ -2,15 +2,21 @@ import { tasks } from "@trigger.dev/sdk";
 import type { FastifyReply, FastifyRequest } from "fastify";
 import { describe, expect, it, vi } from "vitest";
 import { handler } from "../src/fastify";
+import { createEventStreamTarget, parseEvents, runSummary } from "./test-utils";
 
 interface RouteParams {
   id: string;
 }
 
-const createRequest = (id: string, payload: unknown): FastifyRequest<{ Params: RouteParams }> => {
+const createRequest = (
+  id: string,
+  payload: unknown,
+  headers: Record<string, string> = {},
+): FastifyRequest<{ Params: RouteParams }> => {
   return {
     params: { id },
     body: payload,
+    headers,
   } as unknown as FastifyRequest<{ Params: RouteParams }>;
 };
 
@@ -18,153 +24,41 @@ const createReply = () => {
   const reply = {
     code: vi.fn().mockReturnThis(),
     send: vi.fn().mockReturnThis(),
+    headers: vi.fn().mockReturnThis(),
   };
   return reply as unknown as FastifyReply;
 };
 
-const trigger = vi.mocked(tasks.trigger);
-
 describe("Fastify Adapter", () => {
-  it("should trigger task with valid request", async () => {
-    const req = createRequest("test-task", {
-      name: "Test User",
-      email: "test@example.com",
-    });
-    const reply = createReply();
-
-    await handler()(req, reply);
-
-    expect(trigger).toHaveBeenCalledWith("test-task", {
-      name: "Test User",
-      email: "test@example.com",
-    });
-
-    expect(reply.send).toHaveBeenCalledWith({
-      taskId: "test-task",
-      payload: {
-        name: "Test User",
-        email: "test@example.com",
-      },
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
-    });
-  });
-
-  it("should handle missing task ID", async () => {
-    const req = createRequest("", { test: "data" });
-    const reply = createReply();
-
-    await handler()(req, reply);
-
-    expect(reply.code).toHaveBeenCalledWith(400);
-    expect(reply.send).toHaveBeenCalledWith({
-      error: "Task ID is required",
-    });
-    expect(trigger).not.toHaveBeenCalled();
-  });
-
-  it("should handle trigger errors", async () => {
-    trigger.mockRejectedValueOnce(new Error("Trigger failed"));
-
-    const req = createRequest("test-task", { test: "data" });
-    const reply = createReply();
-
-    await handler()(req, reply);
-
-    expect(reply.code).toHaveBeenCalledWith(500);
-    expect(reply.send).toHaveBeenCalledWith({
-      error: "Failed to trigger task",
-    });
-  });
-
-  it("should handle array payload", async () => {
-    const req = createRequest("test-task", [1, 2, 3]);
-    const reply = createReply();
-
-    await handler()(req, reply);
-
-    expect(trigger).toHaveBeenCalledWith("test-task", [1, 2, 3]);
-    expect(reply.send).toHaveBeenCalledWith({
-      taskId: "test-task",
-      payload: [1, 2, 3],
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
-    });
-  });
-
-  it("should handle deeply nested objects", async () => {
-    const payload = {
-      user: {
-        profile: {
-          settings: {
-            notifications: {
-              email: true,
-              push: false,
-            },
-          },
-        },
-      },
-    };
-
-    const req = createRequest("test-task", payload);
-    const reply = createReply();
-
-    await handler()(req, reply);
-
-    expect(trigger).toHaveBeenCalledWith("test-task", payload);
-    expect(reply.send).toHaveBeenCalledWith({
-      taskId: "test-task",
-      payload: payload,
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
+  it("should pass the request's decorations to mapPayload as locals", async () => {
+    const req = Object.assign(createRequest("test-task", { message: "hi" }), {
+      url: "/trigger/test-task?channel=general",
+      user: { id: "user_1" },
     });
-  });
-
-  it("should handle special characters in task ID", async () => {
-    const taskId = "test-task-123_ABC";
-    const req = createRequest(taskId, { test: "data" });
-    const reply = createReply();
 
-    await handler()(req, reply);
+    await handler({
+      mapPayload: ({ body, query, locals }) => ({
+        message: (body as { message: string }).message,
+        channel: query.get("channel"),
+        userId: (locals.user as { id: string }).id,
+      }),
+    })(req, createReply());
 
-    expect(trigger).toHaveBeenCalledWith(taskId, {
-      test: "data",
-    });
-    expect(reply.send).toHaveBeenCalledWith({
-      taskId: taskId,
-      payload: { test: "data" },
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: taskId,
-      },
-    });
+    expect(tasks.trigger).toHaveBeenCalledWith("test-task", { message: "hi", channel: "general", userId: "user_1" });
   });
 
-  it("should handle null and boolean payloads", async () => {
-    const req = createRequest("test-task", null);
-    const reply = createReply();
+  describe("stream", () => {
+    it("should stream run updates to the raw reply", async () => {
+      const req = createRequest("test-task", { test: "data" }, { accept: "text/event-stream" });
+      const raw = createEventStreamTarget();
+      const reply = Object.assign(createReply(), { raw, hijack: vi.fn() });
 
-    await handler()(req, reply);
+      await handler({ stream: { heartbeat: 5000 } })(req, reply);
 
-    expect(trigger).toHaveBeenCalledWith("test-task", null);
-    expect(reply.send).toHaveBeenCalledWith({
-      taskId: "test-task",
-      payload: null,
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
+      expect(reply.hijack).toHaveBeenCalled();
+      expect(raw.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({ "Content-Type": "text/event-stream" }));
+      expect(parseEvents(raw.text()).at(-1)).toEqual({ event: "done", data: runSummary("run_abc123") });
+      expect(reply.send).not.toHaveBeenCalled();
     });
   });
 });
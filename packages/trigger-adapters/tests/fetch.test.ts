@@ -0,0 +1,172 @@
+import { runs, tasks } from "@trigger.dev/sdk";
+import { describe, expect, it, vi } from "vitest";
+import { handler, runHandler } from "../src/fetch";
+import { createRequest, problem, runSummary } from "./test-utils";
+
+const trigger = vi.mocked(tasks.trigger);
+
+describe("Fetch Adapter", () => {
+  it("should handle missing task ID", async () => {
+    const request = createRequest("http://localhost/api/trigger/", { test: "data" });
+
+    const response = await handler()(request);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual(problem("Task ID is required"));
+    expect(trigger).not.toHaveBeenCalled();
+  });
+
+  it("should ignore the query string", async () => {
+    const request = createRequest("http://localhost/api/trigger/test-task?source=web", { test: "data" });
+
+    const response = await handler()(request);
+
+    expect(trigger).toHaveBeenCalledWith("test-task", { test: "data" });
+    expect(response.status).toBe(200);
+  });
+
+  it("should decode encoded task IDs", async () => {
+    const request = createRequest("http://localhost/api/trigger/test%20task", { test: "data" });
+
+    await handler()(request);
+
+    expect(trigger).toHaveBeenCalledWith("test task", { test: "data" });
+  });
+
+  it("should handle non-POST methods", async () => {
+    const request = new Request("http://localhost/api/trigger/test-task", { method: "GET" });
+
+    const response = await handler()(request);
+
+    expect(response.status).toBe(405);
+    expect(await response.json()).toEqual(problem("Method not allowed"));
+    expect(trigger).not.toHaveBeenCalled();
+  });
+
+  describe("basePath", () => {
+    const app = handler({ basePath: "/api/trigger" });
+
+    it("should trigger the task following the base path", async () => {
+      const request = createRequest("http://localhost/api/trigger/test-task", { test: "data" });
+
+      const response = await app(request);
+
+      expect(trigger).toHaveBeenCalledWith("test-task", { test: "data" });
+      expect(response.status).toBe(200);
+    });
+
+    it("should allow a trailing slash", async () => {
+      const request = createRequest("http://localhost/api/trigger/test-task/", { test: "data" });
+
+      const response = await app(request);
+
+      expect(trigger).toHaveBeenCalledWith("test-task", { test: "data" });
+      expect(response.status).toBe(200);
+    });
+
+    it("should handle missing task ID", async () => {
+      const request = createRequest("http://localhost/api/trigger", { test: "data" });
+
+      const response = await app(request);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual(problem("Task ID is required"));
+      expect(trigger).not.toHaveBeenCalled();
+    });
+
+    it("should respond with 404 outside of the base path", async () => {
+      const request = createRequest("http://localhost/api/other/test-task", { test: "data" });
+
+      const response = await app(request);
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual(problem("Not found"));
+      expect(trigger).not.toHaveBeenCalled();
+    });
+
+    it("should respond with 404 for nested paths", async () => {
+      const request = createRequest("http://localhost/api/trigger/test-task/extra", { test: "data" });
+
+      const response = await app(request);
+
+      expect(response.status).toBe(404);
+      expect(trigger).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("runs", () => {
+    it("should read the action from the last segment without a basePath", async () => {
+      const response = await runHandler()(
+        new Request("http://localhost/api/runs/run_abc123/replay", { method: "POST" }),
+      );
+
+      expect(runs.replay).toHaveBeenCalledWith("run_abc123");
+      expect(await response.json()).toEqual(runSummary("run_replay123"));
+    });
+
+    it("should return 404 outside of the basePath", async () => {
+      const response = await runHandler({ basePath: "/api/runs" })(
+        new Request("http://localhost/api/runs/run_abc123/cancel/now", { method: "POST" }),
+      );
+
+      expect(response.status).toBe(404);
+      expect(runs.retrieve).not.toHaveBeenCalled();
+    });
+
+    it("should return 405 for POST without an action", async () => {
+      const response = await runHandler({ basePath: "/api/runs" })(
+        new Request("http://localhost/api/runs/run_abc123", { method: "POST" }),
+      );
+
+      expect(response.status).toBe(405);
+    });
+  });
+
+  describe("body", () => {
+    it("should trigger with a form body", async () => {
+      const response = await handler({ body: { types: ["json", "form"] } })(
+        new Request("http://localhost/api/trigger/test-task", {
+          method: "POST",
+          headers: { "Content-Type": "application/x-www-form-urlencoded" },
+          body: "email=a@example.com",
+        }),
+      );
+
+      expect(response.status).toBe(200);
+      expect(trigger).toHaveBeenCalledWith("test-task", { email: "a@example.com" });
+    });
+
+    it("should trigger with the query string of a GET request", async () => {
+      const response = await handler({ body: { types: ["json", "query"] } })(
+        new Request("http://localhost/api/trigger/test-task?email=a@example.com"),
+      );
+
+      expect(response.status).toBe(200);
+      expect(trigger).toHaveBeenCalledWith("test-task", { email: "a@example.com" });
+    });
+  });
+
+  describe("errors", () => {
+    it("should reject malformed JSON with a 400", async () => {
+      const response = await handler()(
+        new Request("http://localhost/api/trigger/test-task", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: "{ not json",
+        }),
+      );
+
+      expect(response.status).toBe(400);
+      expect(response.headers.get("Content-Type")).toBe("application/problem+json");
+      expect(await response.json()).toEqual(problem("Request body must be valid JSON", { code: "malformed_body" }));
+      expect(trigger).not.toHaveBeenCalled();
+    });
+
+    it("should send an Allow header with a 405", async () => {
+      const response = await handler()(new Request("http://localhost/api/trigger/test-task", { method: "GET" }));
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get("Allow")).toBe("POST");
+    });
+  });
+});
@@ -2,131 +2,22 @@ import { tasks } from "@trigger.dev/sdk";
 import type { Context } from "hono";
 import { describe, expect, it, vi } from "vitest";
 import { handler } from "../src/hono";
+import { parseEvents, problem, runSummary } from "./test-utils";
 
-const createContext = (id: string, payload: unknown): Context => {
+const createContext = (id: string, payload: unknown, headers: Record<string, string> = {}): Context => {
   return {
     req: {
       param: vi.fn().mockReturnValue(id),
-      json: vi.fn().mockResolvedValue(payload),
+      text: vi.fn().mockResolvedValue(JSON.stringify(payload)),
+      raw: new Request("http://localhost", { headers }),
     },
-    json: vi.fn().mockImplementation((data) => Response.json(data)),
+    json: vi.fn().mockImplementation((data, status) => Response.json(data, { status })),
   } as unknown as Context;
 };
 
 const trigger = vi.mocked(tasks.trigger);
 
 describe("Hono Adapter", () => {
-  it("should trigger task with valid request", async () => {
-    const context = createContext("test-task", {
-      name: "Test User",
-      email: "test@example.com",
-    });
-
-    const response = await handler()(context);
-    const data = await response.json();
-
-    expect(context.req.param).toHaveBeenCalledWith("id");
-    expect(context.req.json).toHaveBeenCalled();
-    expect(trigger).toHaveBeenCalledWith("test-task", {
-      name: "Test User",
-      email: "test@example.com",
-    });
-    expect(data).toEqual({
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
-      taskId: "test-task",
-      payload: {
-        name: "Test User",
-        email: "test@example.com",
-      },
-    });
-  });
-
-  it("should handle missing task ID", async () => {
-    const context = createContext(undefined as unknown as string, {
-      test: "data",
-    });
-    const response = await handler()(context);
-    const data = await response.json();
-
-    expect(context.json).toHaveBeenCalledWith({ error: "Task ID is required" }, 400);
-    expect(trigger).not.toHaveBeenCalled();
-    expect(data).toEqual({ error: "Task ID is required" });
-  });
-
-  it("should handle array payload", async () => {
-    const context = createContext("test-task", [1, 2, 3]);
-
-    const response = await handler()(context);
-    const data = await response.json();
-
-    expect(trigger).toHaveBeenCalledWith("test-task", [1, 2, 3]);
-    expect(data).toEqual({
-      taskId: "test-task",
-      payload: [1, 2, 3],
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
-    });
-  });
-
-  it("should handle deeply nested objects", async () => {
-    const payload = {
-      user: {
-        profile: {
-          settings: {
-            notifications: {
-              email: true,
-              push: false,
-            },
-          },
-        },
-      },
-    };
-
-    const context = createContext("test-task", payload);
-
-    const response = await handler()(context);
-    const data = await response.json();
-
-    expect(trigger).toHaveBeenCalledWith("test-task", payload);
-    expect(data).toEqual({
-      taskId: "test-task",
-      payload: payload,
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
-    });
-  });
-
-  it("should handle special characters in task ID", async () => {
-    const taskId = "test-task-123_ABC";
-    const context = createContext(taskId, { test: "data" });
-
-    const response = await handler()(context);
-    const data = await response.json();
-
-    expect(trigger).toHaveBeenCalledWith(taskId, {
-      test: "data",
-    });
-    expect(data).toEqual({
-      taskId: taskId,
-      payload: { test: "data" },
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: taskId,
-      },
-    });
-  });
-
   it("should handle large payloads", async () => {
     const largePayload = {
       data: Array(1000)
@@ -155,21 +46,62 @@ describe("Hono Adapter", () => {
     });
   });
 
-  it("should handle boolean and number payloads", async () => {
-    const context = createContext("test-task", true);
+  describe("stream", () => {
+    it("should respond with a streaming Response", async () => {
+      const context = createContext("test-task", { test: "data" }, { Accept: "text/event-stream" });
 
-    const response = await handler()(context);
-    const data = await response.json();
+      const response = await handler({ stream: true })(context);
 
-    expect(trigger).toHaveBeenCalledWith("test-task", true);
-    expect(data).toEqual({
-      taskId: "test-task",
-      payload: true,
-      handle: {
-        id: "run_abc123",
-        publicAccessToken: "test-token",
-        taskIdentifier: "test-task",
-      },
+      expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+      expect(parseEvents(await response.text())).toEqual([
+        { event: "trigger", data: expect.objectContaining({ taskId: "test-task" }) },
+        { event: "update", data: expect.objectContaining({ status: "EXECUTING", metadata: { progress: 0.5 } }) },
+        { event: "update", data: expect.objectContaining({ status: "COMPLETED", metadata: { progress: 1 } }) },
+        { event: "done", data: runSummary("run_abc123") },
+      ]);
+    });
+  });
+
+  describe("mapPayload", () => {
+    it("should build the payload from the route, query and context variables", async () => {
+      const context = {
+        req: {
+          param: vi.fn((name?: string) => (name ? "test-task" : { id: "test-task" })),
+          text: vi.fn().mockResolvedValue(JSON.stringify({ message: "hi" })),
+          raw: new Request("http://localhost/trigger/test-task?channel=general"),
+        },
+        var: { userId: "user_1" },
+        json: vi.fn().mockImplementation((data, status) => Response.json(data, { status })),
+      } as unknown as Context;
+
+      await handler({
+        mapPayload: ({ body, query, params, locals }) => ({
+          ...(body as object),
+          task: params.id,
+          channel: query.get("channel"),
+          userId: locals.userId,
+        }),
+      })(context);
+
+      expect(trigger).toHaveBeenCalledWith("test-task", {
+        message: "hi",
+        task: "test-task",
+        channel: "general",
+        userId: "user_1",
+      });
+    });
+  });
+
+  describe("errors", () => {
+    it("should reject malformed JSON with a 400", async () => {
+      const context = createContext("test-task", undefined);
+      vi.mocked(context.req.text).mockResolvedValueOnce("{ not json");
+
+      const response = await handler()(context);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual(problem("Request body must be valid JSON", { code: "malformed_body" }));
+      expect(trigger).not.toHaveBeenCalled();
     });
   });
 });
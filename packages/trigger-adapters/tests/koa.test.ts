@@ -0,0 +1,74 @@
+import { Readable } from "node:stream";
+import { tasks } from "@trigger.dev/sdk";
+import { describe, expect, it, vi } from "vitest";
+import { handler, type KoaContext } from "../src/koa";
+import { createEventStreamTarget, parseEvents } from "./test-utils";
+
+const createContext = (
+  id: string,
+  payload: unknown,
+  headers: Record<string, string> = {},
+  state: Record<string, unknown> = {},
+): KoaContext => {
+  return {
+    params: id ? { id } : {},
+    request: { body: payload },
+    headers,
+    state,
+    set: vi.fn(),
+  } as unknown as KoaContext;
+};
+
+describe("Koa Adapter", () => {
+  describe("authorize", () => {
+    it("should pass the request and state to the authorize hook", async () => {
+      const authorize = vi.fn().mockResolvedValue(true);
+      const ctx = createContext(
+        "test-task",
+        { test: "data" },
+        { authorization: "Bearer token" },
+        { user: { id: "user_123" } },
+      );
+
+      await handler({ authorize })(ctx);
+
+      const [request] = authorize.mock.calls[0];
+      expect(request.taskId).toBe("test-task");
+      expect(request.payload).toEqual({ test: "data" });
+      expect(request.headers.get("authorization")).toBe("Bearer token");
+      expect(request.locals).toEqual({ user: { id: "user_123" } });
+      expect(ctx.status).toBe(200);
+    });
+  });
+
+  describe("body", () => {
+    it("should read ctx.req when no body parser is mounted", async () => {
+      const req = Readable.from([Buffer.from("email=a@example.com")]);
+      const ctx = Object.assign(createContext("test-task", undefined), {
+        method: "POST",
+        headers: { "content-type": "application/x-www-form-urlencoded" },
+        req,
+      });
+
+      await handler({ body: { types: ["form"] } })(ctx);
+
+      expect(tasks.trigger).toHaveBeenCalledWith("test-task", { email: "a@example.com" });
+      expect(ctx.status).toBe(200);
+    });
+  });
+
+  describe("stream", () => {
+    it("should stream run updates to ctx.res and leave the response to the adapter", async () => {
+      const res = createEventStreamTarget();
+      const ctx = Object.assign(createContext("test-task", { test: "data" }, { accept: "text/event-stream" }), {
+        res,
+      });
+
+      await handler({ stream: true })(ctx);
+
+      expect(ctx.respond).toBe(false);
+      expect(parseEvents(res.text()).map(({ event }) => event)).toEqual(["trigger", "update", "update", "done"]);
+      expect(ctx.body).toBeUndefined();
+    });
+  });
+});
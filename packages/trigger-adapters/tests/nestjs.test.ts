@@ -0,0 +1,95 @@
+import type { CanActivate, Type } from "@nestjs/common";
+import { GUARDS_METADATA, METHOD_METADATA, PATH_METADATA } from "@nestjs/common/constants";
+import type { AnyTask } from "@trigger.dev/sdk";
+import { describe, expect, it } from "vitest";
+import { TriggerAdaptersModule, type TriggerAdaptersModuleOptions } from "../src/nestjs";
+
+type TriggerController = {
+  trigger: (
+    taskId: string,
+    payload: unknown,
+    request: { headers: Record<string, string> },
+    response: {
+      header: (name: string, value: string) => unknown;
+      status: (code: number) => { send: (body: unknown) => unknown };
+    },
+  ) => Promise<unknown>;
+  batch: (taskId: string, payload: unknown, request: { headers: Record<string, string> }) => Promise<unknown>;
+  retrieveRun: (runId: string, request: { method: string; headers: Record<string, string> }) => Promise<unknown>;
+  runAction: (
+    runId: string,
+    action: string,
+    request: { method: string; headers: Record<string, string> },
+  ) => Promise<unknown>;
+};
+
+const createController = (options: TriggerAdaptersModuleOptions = {}) => {
+  const module = TriggerAdaptersModule.forRoot(options);
+  const Controller = module.controllers?.[0] as Type<TriggerController>;
+
+  return { module, Controller, controller: new Controller(options) };
+};
+
+const registeredTasks = [{ id: "test-task" }, { id: "other-task" }] as unknown as AnyTask[];
+
+describe("NestJS Adapter", () => {
+  describe("forRoot", () => {
+    it("should register a controller for POST /trigger/:id", () => {
+      const { module, Controller } = createController();
+
+      expect(module.module).toBe(TriggerAdaptersModule);
+      expect(Reflect.getMetadata(PATH_METADATA, Controller)).toBe("trigger");
+      expect(Reflect.getMetadata(PATH_METADATA, Controller.prototype.trigger)).toBe(":id");
+      expect(Reflect.getMetadata(METHOD_METADATA, Controller.prototype.trigger)).toBe(1);
+    });
+
+    it("should register a route for POST /trigger/:id/batch", () => {
+      const { Controller } = createController();
+
+      expect(Reflect.getMetadata(PATH_METADATA, Controller.prototype.batch)).toBe(":id/batch");
+      expect(Reflect.getMetadata(METHOD_METADATA, Controller.prototype.batch)).toBe(1);
+    });
+
+    it("should provide the options to the controller", () => {
+      const options = { tasks: registeredTasks };
+      const { module } = createController(options);
+
+      expect(module.providers).toContainEqual(expect.objectContaining({ useValue: options }));
+    });
+
+    it("should mount the controller at a custom path", () => {
+      const { Controller } = createController({ path: "api/tasks" });
+
+      expect(Reflect.getMetadata(PATH_METADATA, Controller)).toBe("api/tasks");
+    });
+
+    it("should apply guards to the controller", () => {
+      class AuthGuard implements CanActivate {
+        canActivate() {
+          return true;
+        }
+      }
+
+      const { Controller } = createController({ guards: [AuthGuard] });
+
+      expect(Reflect.getMetadata(GUARDS_METADATA, Controller)).toEqual([AuthGuard]);
+    });
+  });
+
+  describe("runs", () => {
+    it("should register the run routes when enabled", () => {
+      const { Controller } = createController({ runs: true });
+
+      expect(Reflect.getMetadata(PATH_METADATA, Controller.prototype.retrieveRun)).toBe("runs/:runId");
+      expect(Reflect.getMetadata(METHOD_METADATA, Controller.prototype.retrieveRun)).toBe(0);
+      expect(Reflect.getMetadata(PATH_METADATA, Controller.prototype.runAction)).toBe("runs/:runId/:action");
+      expect(Reflect.getMetadata(METHOD_METADATA, Controller.prototype.runAction)).toBe(1);
+    });
+
+    it("should not register the run routes by default", () => {
+      const { Controller } = createController();
+
+      expect(Reflect.getMetadata(PATH_METADATA, Controller.prototype.retrieveRun)).toBeUndefined();
+    });
+  });
+});
@@ -1,124 +1,201 @@
-import { tasks } from "@trigger.dev/sdk";
+import { readFileSync } from "node:fs";
+import { builtinModules } from "node:module";
+import { join } from "node:path";
+import { runs, tasks } from "@trigger.dev/sdk";
 import type { NextApiRequest, NextApiResponse } from "next";
+import { headers } from "next/headers";
 import { describe, expect, it, vi } from "vitest";
-import { handler } from "../src/nextjs";
-import { createRequest } from "./test-utils";
+import { batchHandler, createTriggerAction, handler, runHandler } from "../src/nextjs";
+import { createEventStreamTarget, createRequest, emailSchema, parseEvents, problem, runSummary } from "./test-utils";
+
+vi.mock("next/headers", () => ({ headers: vi.fn(async () => new Headers()) }));
 
 const trigger = vi.mocked(tasks.trigger);
 
+// The value imports of a source file and the files they reach. A scan of the
+// import statements, not a build: it catches a Node.js built-in or `next`
+// itself creeping into the module graph.
+function collectImports(file: string, seen = new Set<string>()): string[] {
+  const source = readFileSync(file, "utf8");
+  const specifiers = [
+    ...source.matchAll(/^import (?!type )[^;]*?from "([^"]+)";/gms),
+    ...source.matchAll(/import\("([^"]+)"\)/g),
+  ].map(([, specifier]) => specifier);
+
+  return specifiers.flatMap((specifier) => {
+    if (!specifier.startsWith(".")) {
+      return [specifier];
+    }
+
+    const path = join(file, "..", `${specifier}.ts`);
+
+    if (seen.has(path)) {
+      return [];
+    }
+
+    seen.add(path);
+
+    return collectImports(path, seen);
+  });
+}
+
 describe("Next.js Adapter", () => {
   describe("App Router", () => {
     const { POST } = handler();
 
-    it("should trigger task with valid request", async () => {
-      const request = createRequest("http://localhost/api/trigger/test-task", {
-        name: "Test User",
-        email: "test@example.com",
-      });
+    it("should handle empty request body", async () => {
+      const request = createRequest("http://localhost/api/trigger/test-task", {});
 
       const response = await POST(request);
 
-      expect(trigger).toHaveBeenCalledWith("test-task", {
-        name: "Test User",
-        email: "test@example.com",
-      });
+      expect(trigger).toHaveBeenCalledWith("test-task", {});
+      expect(response.status).toBe(200);
+    });
+
+    it("should read the task ID from the route params", async () => {
+      const request = createRequest("http://localhost/api/trigger/test-task/?ref=email", {});
+
+      await POST(request, { params: { id: "test-task" } });
+
+      expect(trigger).toHaveBeenCalledWith("test-task", {});
+    });
+
+    it("should await async route params", async () => {
+      const request = createRequest("http://localhost/api/trigger/other", {});
+
+      await POST(request, { params: Promise.resolve({ id: "test-task" }) });
+
+      expect(trigger).toHaveBeenCalledWith("test-task", {});
+    });
+
+    it("should read the task ID from a catch-all route", async () => {
+      const request = createRequest("http://localhost/api/trigger/test-task/batch", [{}]);
+
+      const response = await batchHandler().POST(request, { params: Promise.resolve({ id: ["test-task", "batch"] }) });
 
-      const data = await response.json();
-      expect(data).toEqual({
-        taskId: "test-task",
-        handle: {
-          id: "run_abc123",
-          publicAccessToken: "test-token",
-          taskIdentifier: "test-task",
-        },
-        payload: {
-          name: "Test User",
-          email: "test@example.com",
-        },
-      });
       expect(response.status).toBe(200);
+      expect(vi.mocked(tasks.batchTrigger).mock.calls[0][0]).toBe("test-task");
     });
 
-    it("should handle missing task ID", async () => {
-      const request = createRequest("http://localhost/api/trigger/", {
-        test: "data",
-      });
+    it("should answer a catch-all with extra segments with a 404", async () => {
+      const request = createRequest("http://localhost/api/trigger/a/b", {});
 
-      const response = await POST(request);
-      const data = await response.json();
+      const response = await POST(request, { params: Promise.resolve({ id: ["a", "b"] }) });
 
-      expect(response.status).toBe(400);
-      expect(data).toEqual({ error: "Task ID is required" });
+      expect(response.status).toBe(404);
       expect(trigger).not.toHaveBeenCalled();
     });
 
-    it("should handle empty request body", async () => {
-      const request = createRequest("http://localhost/api/trigger/test-task", {});
+    it("should read the run ID and action from the route params", async () => {
+      const request = new Request("http://localhost/api/runs/run_abc123/cancel", { method: "POST" });
 
-      const response = await POST(request);
+      const response = await runHandler().POST(request, {
+        params: Promise.resolve({ runId: "run_abc123", action: "cancel" }),
+      });
 
-      expect(trigger).toHaveBeenCalledWith("test-task", {});
       expect(response.status).toBe(200);
+      expect(runs.cancel).toHaveBeenCalledWith("run_abc123");
     });
   });
 
-  describe("Pages Router", () => {
-    const { handle } = handler();
+  describe("Server Actions", () => {
+    it("should trigger a task with the payload", async () => {
+      const action = createTriggerAction();
 
-    it("should trigger task with valid request", async () => {
-      const req = {
-        method: "POST",
-        query: { id: "test-task" },
-        body: { name: "Test User", email: "test@example.com" },
-      };
+      const result = await action("test-task", { email: "a@example.com" });
 
-      const res = {
-        status: vi.fn().mockReturnThis(),
-        json: vi.fn(),
-      };
+      expect(trigger).toHaveBeenCalledWith("test-task", { email: "a@example.com" });
+      expect(result).toEqual({
+        ok: true,
+        result: expect.objectContaining({ taskId: "test-task", handle: expect.objectContaining({ id: "run_abc123" }) }),
+      });
+    });
 
-      await handle(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+    it("should read form data when multipart bodies are accepted", async () => {
+      const action = createTriggerAction({ body: { types: ["multipart"] } });
+      const form = new FormData();
+      form.append("email", "a@example.com");
+
+      await action("test-task", form);
+
+      expect(trigger).toHaveBeenCalledWith("test-task", { email: "a@example.com" });
+    });
 
-      expect(trigger).toHaveBeenCalledWith("test-task", {
-        name: "Test User",
-        email: "test@example.com",
+    it("should resolve with the problem details when the payload is invalid", async () => {
+      const action = createTriggerAction({ schemas: { "test-task": emailSchema } });
+
+      const result = await action("test-task", { email: 42 });
+
+      expect(result).toEqual({ ok: false, problem: expect.objectContaining({ status: 422, code: "invalid_payload" }) });
+      expect(trigger).not.toHaveBeenCalled();
+    });
+
+    it("should authorize with the headers of the action's request", async () => {
+      vi.mocked(headers).mockResolvedValueOnce(new Headers({ authorization: "Bearer secret" }) as never);
+      const authorize = vi.fn(({ headers }) => headers.get("authorization") === "Bearer secret");
+
+      const result = await createTriggerAction({ authorize })("test-task", {});
+
+      expect(result.ok).toBe(true);
+      expect(authorize).toHaveBeenCalled();
+    });
+
+    it("should resolve with the whole result whatever serializeResult is", async () => {
+      const action = createTriggerAction({ serializeResult: "minimal" });
+
+      const result = await action("test-task", {});
+
+      expect(result).toEqual({
+        ok: true,
+        result: expect.objectContaining({ taskId: "test-task", handle: expect.objectContaining({ id: "run_abc123" }) }),
       });
+    });
 
-      expect(res.status).toHaveBeenCalledWith(200);
-      expect(res.json).toHaveBeenCalledWith({
-        taskId: "test-task",
-        handle: {
-          id: "run_abc123",
-          publicAccessToken: "test-token",
-          taskIdentifier: "test-task",
-        },
-        payload: {
-          name: "Test User",
-          email: "test@example.com",
+    it("should resolve a run that failed in wait mode with its result", async () => {
+      vi.mocked(runs.subscribeToRun).mockReturnValueOnce({
+        unsubscribe: vi.fn(),
+        async *[Symbol.asyncIterator]() {
+          yield {
+            ...(await runs.retrieve("run_abc123")),
+            status: "FAILED",
+            output: undefined,
+            error: { name: "Error", message: "Mailbox full" },
+            isCompleted: true,
+          };
         },
+        // biome-ignore lint/suspicious/noExplicitAny: needed
+      } as any);
+
+      const result = await createTriggerAction({ mode: "wait" })("test-task", {});
+
+      expect(result).toEqual({
+        ok: true,
+        result: expect.objectContaining({
+          run: expect.objectContaining({ status: "FAILED", error: { name: "Error", message: "Mailbox full" } }),
+        }),
       });
     });
 
-    it("should handle missing task ID in Pages Router", async () => {
-      const req = {
-        method: "POST",
-        query: {},
-        body: { test: "data" },
-      };
-
-      const res = {
-        status: vi.fn().mockReturnThis(),
-        json: vi.fn(),
-      };
+    it("should require a rate limit key, as actions have no client IP", () => {
+      expect(() => createTriggerAction({ rateLimit: { limit: 1, window: 60_000 } } as never)).toThrow(
+        "rateLimit.key is required, as Server Actions can't tell the client's IP",
+      );
+    });
+  });
 
-      await handle(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  describe("imports", () => {
+    it("should import no Node.js built-ins and only types from next", () => {
+      const imports = collectImports(join(__dirname, "../src/nextjs.ts"));
 
-      expect(res.status).toHaveBeenCalledWith(400);
-      expect(res.json).toHaveBeenCalledWith({
-        error: "Task ID is required",
-      });
-      expect(trigger).not.toHaveBeenCalled();
+      expect(
+        imports.filter((specifier) => specifier.startsWith("node:") || builtinModules.includes(specifier)),
+      ).toEqual([]);
+      expect(imports).not.toContain("next");
     });
+  });
+
+  describe("Pages Router", () => {
+    const { handle } = handler();
 
     it("should handle non-POST methods", async () => {
       const req = {
@@ -129,65 +206,68 @@ describe("Next.js Adapter", () => {
       const res = {
         status: vi.fn().mockReturnThis(),
         json: vi.fn(),
+        setHeader: vi.fn(),
       };
 
       await handle(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
 
       expect(res.status).toHaveBeenCalledWith(405);
-      expect(res.json).toHaveBeenCalledWith({
-        error: "Method not allowed",
-      });
+      expect(res.json).toHaveBeenCalledWith(problem("Method not allowed"));
       expect(trigger).not.toHaveBeenCalled();
     });
   });
 
-  describe("Edge cases", () => {
-    const { POST } = handler();
+  describe("runs", () => {
+    it("should require a run ID in Pages Router", async () => {
+      const { handle } = runHandler();
+      const req = { method: "GET", query: {}, headers: {} };
 
-    it("should handle array payload", async () => {
-      const request = createRequest("http://localhost/api/trigger/test-task", [1, 2, 3]);
+      const res = {
+        status: vi.fn().mockReturnThis(),
+        json: vi.fn(),
+        setHeader: vi.fn(),
+      };
 
-      const response = await POST(request);
+      await handle(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
 
-      expect(trigger).toHaveBeenCalledWith("test-task", [1, 2, 3]);
-      expect(response.status).toBe(200);
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith(problem("Run ID is required"));
     });
+  });
 
-    it("should handle deeply nested objects", async () => {
-      const payload = {
-        user: {
-          profile: {
-            settings: {
-              notifications: {
-                email: true,
-                push: false,
-              },
-            },
-          },
-        },
-      };
-
-      const request = createRequest("http://localhost/api/trigger/test-task", payload);
+  describe("stream", () => {
+    it("should respond with a streaming Response in App Router", async () => {
+      const { POST } = handler({ stream: true });
+      const request = createRequest(
+        "http://localhost/api/trigger/test-task",
+        { test: "data" },
+        { Accept: "text/event-stream" },
+      );
 
       const response = await POST(request);
 
-      expect(trigger).toHaveBeenCalledWith("test-task", payload);
-      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+      expect(parseEvents(await response.text()).at(-1)).toEqual({ event: "done", data: runSummary("run_abc123") });
     });
 
-    it("should handle special characters in task ID", async () => {
-      const taskId = "test-task-123_ABC";
+    it("should stream run updates with res.write in Pages Router", async () => {
+      const { handle } = handler({ stream: true });
+      const req = {
+        method: "POST",
+        query: { id: "test-task" },
+        body: { test: "data" },
+        headers: { accept: "text/event-stream" },
+      };
 
-      const request = createRequest(`http://localhost/api/trigger/${taskId}`, {
-        test: "data",
-      });
+      const res = Object.assign(
+        { status: vi.fn().mockReturnThis(), json: vi.fn(), setHeader: vi.fn() },
+        createEventStreamTarget(),
+      );
 
-      const response = await POST(request);
-      const data = await response.json();
+      await handle(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
 
-      expect(trigger).toHaveBeenCalledWith(taskId, { test: "data" });
-      expect(response.status).toBe(200);
-      expect(data.taskId).toEqual(taskId);
+      expect(parseEvents(res.text()).map(({ event }) => event)).toEqual(["trigger", "update", "update", "done"]);
+      expect(res.json).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,180 @@
+import type { AnyTask } from "@trigger.dev/sdk";
+import { describe, expect, it } from "vitest";
+import { openAPIHandler } from "../src/fetch";
+import { generateOpenAPI } from "../src/openapi";
+import type { StandardJSONSchemaV1 } from "../src/standard-schema";
+import { emailSchema } from "./test-utils";
+
+// biome-ignore lint/suspicious/noExplicitAny: the document is plain JSON, read by path in the assertions
+type Json = any;
+
+const registeredTasks = [{ id: "send-email" }, { id: "resize-image" }] as unknown as AnyTask[];
+
+// The email schema with the JSON Schema converter validators like zod add.
+const emailJSONSchema: StandardJSONSchemaV1 = {
+  "~standard": {
+    ...emailSchema["~standard"],
+    jsonSchema: {
+      input: () => ({
+        $schema: "https://json-schema.org/draft/2020-12/schema",
+        type: "object",
+        required: ["email"],
+        properties: { email: { type: "string" } },
+      }),
+      output: () => ({ type: "object", properties: { email: { type: "string", format: "email" } } }),
+    },
+  },
+};
+
+describe("generateOpenAPI", () => {
+  it("should describe a trigger operation for each task", () => {
+    const document = generateOpenAPI({
+      tasks: registeredTasks,
+      schemas: { "send-email": emailJSONSchema },
+      info: { title: "Jobs" },
+    });
+
+    expect(document.info).toEqual({ title: "Jobs", version: "1.0.0" });
+    expect(Object.keys(document.paths)).toEqual(["/trigger/send-email", "/trigger/resize-image"]);
+
+    const operation = document.paths["/trigger/send-email"].post as Json;
+
+    expect(operation.operationId).toBe("triggerSendEmail");
+    expect(operation.requestBody.content["application/json"].schema).toEqual({
+      type: "object",
+      required: ["email"],
+      properties: { email: { type: "string" } },
+    });
+    expect(operation.responses[200].content["application/json"].schema.properties).toMatchObject({
+      taskId: { const: "send-email" },
+      payload: { properties: { email: { format: "email" } } },
+      handle: { $ref: "#/components/schemas/RunHandle" },
+    });
+    expect(operation.responses[422].content["application/problem+json"].schema).toEqual({
+      $ref: "#/components/schemas/ValidationProblem",
+    });
+  });
+
+  it("should number operation IDs that task IDs would share", () => {
+    const document = generateOpenAPI({
+      tasks: [{ id: "send-email" }, { id: "send_email" }, { id: "send-email2" }] as unknown as AnyTask[],
+      batch: true,
+    });
+    const operationIds = Object.values(document.paths).flatMap((path) =>
+      Object.values(path).map((operation) => (operation as Json).operationId),
+    );
+
+    expect(operationIds).toEqual([
+      "triggerSendEmail",
+      "batchTriggerSendEmail",
+      "triggerSendEmail2",
+      "batchTriggerSendEmail2",
+      "triggerSendEmail22",
+      "batchTriggerSendEmail22",
+    ]);
+  });
+
+  it("should describe the error responses the options produce", () => {
+    const responses = (options: Parameters<typeof generateOpenAPI>[0]) =>
+      Object.keys((generateOpenAPI(options).paths["/trigger/{id}"].post as Json).responses);
+
+    expect(responses({})).toEqual(["200", "202", "400", "409", "410", "413", "415", "500", "502", "504"]);
+    expect(responses({ authorize: () => true, rateLimit: { limit: 1, window: 1000 } })).toEqual(
+      expect.arrayContaining(["401", "403", "429"]),
+    );
+
+    const operation = generateOpenAPI({}).paths["/trigger/{id}"].post as Json;
+
+    expect(operation.parameters[0]).toMatchObject({ name: "id", in: "path" });
+    expect(operation.responses[400].description).toContain("`missing_task_id`");
+  });
+
+  it("should describe payloads with toJSONSchema, or as any value", () => {
+    const document = generateOpenAPI({
+      schemas: { "send-email": emailSchema, "resize-image": emailSchema },
+      toJSONSchema: (_schema, taskId) => (taskId === "send-email" ? { type: "object" } : undefined),
+    });
+    const schema = (path: string) => (document.paths[path].post as Json).requestBody.content["application/json"].schema;
+
+    expect(schema("/trigger/send-email")).toEqual({ type: "object" });
+    expect(schema("/trigger/resize-image")).toEqual({});
+  });
+
+  it("should not describe the request body with the schema when mapPayload is set", () => {
+    const document = generateOpenAPI({
+      schemas: { "send-email": emailJSONSchema },
+      mapPayload: ({ body }) => body,
+    });
+    const operation = document.paths["/trigger/send-email"].post as Json;
+
+    expect(operation.requestBody.content["application/json"].schema).toEqual({});
+    expect(operation.responses[200].content["application/json"].schema.properties.payload).toMatchObject({
+      type: "object",
+    });
+  });
+
+  it("should describe envelopes, client options and accepted content types", () => {
+    const document = generateOpenAPI({
+      schemas: { "send-email": emailJSONSchema },
+      envelope: true,
+      clientOptions: ["delay"],
+      body: { types: ["json", "form", "query"] },
+    });
+    const path = document.paths["/trigger/send-email"] as Json;
+
+    expect(Object.keys(path.post.requestBody.content)).toEqual([
+      "application/json",
+      "application/x-www-form-urlencoded",
+    ]);
+    expect(path.post.requestBody.content["application/json"].schema).toMatchObject({
+      required: ["payload"],
+      properties: { options: { properties: { delay: { type: "string" } }, additionalProperties: false } },
+    });
+    expect(path.post.parameters).toContainEqual(expect.objectContaining({ name: "x-trigger-delay", in: "header" }));
+    expect(path.get.operationId).toBe("triggerSendEmailFromQuery");
+    expect(path.get.requestBody).toBeUndefined();
+    expect(path.get.parameters).toContainEqual({
+      name: "email",
+      in: "query",
+      required: true,
+      schema: { type: "string" },
+    });
+  });
+
+  it("should describe the batch and run endpoints", () => {
+    const document = generateOpenAPI({
+      tasks: [registeredTasks[0]],
+      batch: true,
+      basePath: "/api/trigger/",
+      runsPath: "/api/runs",
+      serializeResult: "minimal",
+    });
+
+    expect(Object.keys(document.paths)).toEqual([
+      "/api/trigger/send-email",
+      "/api/trigger/send-email/batch",
+      "/api/runs/{runId}",
+      "/api/runs/{runId}/{action}",
+    ]);
+
+    const batch = document.paths["/api/trigger/send-email/batch"].post as Json;
+
+    expect(batch.requestBody.content["application/json"].schema).toEqual({ type: "array", minItems: 1, items: {} });
+    expect(batch.responses[200].content["application/json"].schema).toMatchObject({ required: ["batchId"] });
+  });
+});
+
+describe("openAPIHandler", () => {
+  it("should serve the document as JSON", async () => {
+    const serve = openAPIHandler({ tasks: registeredTasks, basePath: "/api/trigger" });
+
+    const response = await serve(new Request("http://localhost/openapi.json"));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("application/json");
+    await expect(response.json()).resolves.toMatchObject({
+      openapi: "3.1.0",
+      paths: { "/api/trigger/send-email": expect.any(Object) },
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryStore, toRateLimitHeaders } from "../src/rate-limit";
+
+describe("Rate limit", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createMemoryStore", () => {
+    it("should allow requests up to the limit", () => {
+      const store = createMemoryStore();
+      const rule = { limit: 2, window: 1000 };
+
+      expect(store.consume("client", rule)).toEqual({ allowed: true, remaining: 1, reset: 1000 });
+      expect(store.consume("client", rule)).toEqual({ allowed: true, remaining: 0, reset: 1000 });
+      expect(store.consume("client", rule)).toEqual({ allowed: false, remaining: 0, reset: 1000 });
+    });
+
+    it("should count keys separately", () => {
+      const store = createMemoryStore();
+      const rule = { limit: 1, window: 1000 };
+
+      store.consume("a", rule);
+
+      expect(store.consume("b", rule)).toMatchObject({ allowed: true });
+    });
+
+    it("should free up slots as the window slides", () => {
+      const store = createMemoryStore();
+      const rule = { limit: 2, window: 1000 };
+
+      store.consume("client", rule);
+      vi.advanceTimersByTime(600);
+      store.consume("client", rule);
+
+      expect(store.consume("client", rule)).toEqual({ allowed: false, remaining: 0, reset: 400 });
+
+      vi.advanceTimersByTime(400);
+
+      expect(store.consume("client", rule)).toEqual({ allowed: true, remaining: 0, reset: 600 });
+    });
+  });
+
+  describe("toRateLimitHeaders", () => {
+    it("should report the reset in whole seconds", () => {
+      expect(toRateLimitHeaders({ limit: 10, window: 60_000 }, { allowed: true, remaining: 4, reset: 1500 })).toEqual({
+        "RateLimit-Limit": "10",
+        "RateLimit-Remaining": "4",
+        "RateLimit-Reset": "2",
+      });
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { runs } from "@trigger.dev/sdk";
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTriggerClient } from "../src/client";
+import { handler, runHandler } from "../src/fetch";
+import { createRunWatcher, createTaskTrigger, TriggerClientProvider, useRun, useTriggerTask } from "../src/react";
+import { emailSchema, runSummary } from "./test-utils";
+
+const createClient = (options: Parameters<typeof handler>[0] = {}) => {
+  const trigger = handler({ ...options, basePath: "/api/trigger" });
+  const run = runHandler({ basePath: "/api/runs" });
+
+  return createTriggerClient({
+    baseUrl: "http://localhost/api/trigger",
+    runsUrl: "http://localhost/api/runs",
+    fetch: async (url, init) => {
+      const request = new Request(url, init);
+
+      return new URL(request.url).pathname.startsWith("/api/runs") ? run(request) : trigger(request);
+    },
+  });
+};
+
+describe("React", () => {
+  describe("createTaskTrigger", () => {
+    it("should track a submission until it resolves", async () => {
+      const trigger = createTaskTrigger(createClient(), "test-task");
+      const listener = vi.fn();
+      trigger.subscribe(listener);
+
+      const submission = trigger.submit({ email: "a@example.com" });
+
+      expect(trigger.getSnapshot()).toEqual({ isSubmitting: true, result: undefined, error: undefined });
+
+      const result = await submission;
+
+      expect(result.handle.id).toBe("run_abc123");
+      expect(trigger.getSnapshot()).toEqual({ isSubmitting: false, result, error: undefined });
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it("should go through the submitting and success states", async () => {
+      const trigger = createTaskTrigger(createClient(), "test-task");
+      const states: unknown[] = [];
+      trigger.subscribe(() => states.push(trigger.getSnapshot()));
+
+      const result = await trigger.submit({ email: "a@example.com" });
+
+      expect(states).toEqual([
+        { isSubmitting: true, result: undefined, error: undefined },
+        { isSubmitting: false, result, error: undefined },
+      ]);
+    });
+
+    it("should go through the submitting and error states without rejecting", async () => {
+      const trigger = createTaskTrigger(createClient({ schemas: { "test-task": emailSchema } }), "test-task");
+      const states: unknown[] = [];
+      trigger.subscribe(() => states.push(trigger.getSnapshot()));
+
+      await expect(trigger.submit({ email: 42 })).resolves.toBeUndefined();
+
+      expect(states).toEqual([
+        { isSubmitting: true, result: undefined, error: undefined },
+        { isSubmitting: false, result: undefined, error: expect.objectContaining({ status: 422 }) },
+      ]);
+    });
+
+    it("should reject from submitAsync and keep the error", async () => {
+      const trigger = createTaskTrigger(createClient({ schemas: { "test-task": emailSchema } }), "test-task");
+
+      await expect(trigger.submitAsync({ email: 42 })).rejects.toMatchObject({ status: 422 });
+
+      expect(trigger.getSnapshot()).toMatchObject({
+        isSubmitting: false,
+        error: expect.objectContaining({ status: 422 }),
+      });
+    });
+
+    it("should ignore a submission that was reset", async () => {
+      const trigger = createTaskTrigger(createClient(), "test-task");
+
+      const submission = trigger.submit({ email: "a@example.com" });
+      trigger.reset();
+      await submission;
+
+      expect(trigger.getSnapshot()).toEqual({ isSubmitting: false, result: undefined, error: undefined });
+    });
+  });
+
+  describe("createRunWatcher", () => {
+    const executing = async (id: string) =>
+      ({
+        id,
+        taskIdentifier: "test-task",
+        status: "EXECUTING",
+        createdAt: new Date("2026-01-01T00:00:00.000Z"),
+        updatedAt: new Date("2026-01-01T00:00:01.000Z"),
+      }) as Awaited<ReturnType<typeof runs.retrieve>>;
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should poll the run until it completes", async () => {
+      vi.mocked(runs.retrieve).mockImplementationOnce(executing);
+      const watcher = createRunWatcher(createClient(), "run_abc123", { interval: 500 });
+      const unsubscribe = watcher.subscribe(() => {});
+
+      expect(watcher.getSnapshot()).toEqual({ isLoading: true, isCompleted: false });
+
+      await vi.waitFor(() => expect(watcher.getSnapshot().run?.status).toBe("EXECUTING"));
+      expect(watcher.getSnapshot().isCompleted).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(500);
+
+      await vi.waitFor(() => expect(watcher.getSnapshot().isCompleted).toBe(true));
+      expect(watcher.getSnapshot().run).toEqual(runSummary("run_abc123"));
+
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(runs.retrieve).toHaveBeenCalledTimes(2);
+      unsubscribe();
+    });
+
+    it("should stop polling once the last listener unsubscribes", async () => {
+      vi.mocked(runs.retrieve).mockImplementationOnce(executing);
+      const watcher = createRunWatcher(createClient(), "run_abc123", { interval: 500 });
+      const unsubscribe = watcher.subscribe(() => {});
+
+      await vi.waitFor(() => expect(watcher.getSnapshot().run?.status).toBe("EXECUTING"));
+      unsubscribe();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(runs.retrieve).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep the error of a failed poll", async () => {
+      const watcher = createRunWatcher(createClient(), "run_missing");
+      vi.mocked(runs.retrieve).mockRejectedValueOnce(Object.assign(new Error("Not found"), { status: 404 }));
+
+      const unsubscribe = watcher.subscribe(() => {});
+
+      await vi.waitFor(() => expect(watcher.getSnapshot().error).toMatchObject({ status: 404, code: "run_not_found" }));
+      unsubscribe();
+    });
+  });
+
+  describe("hooks", () => {
+    it("should render the initial state on the server", () => {
+      const Status = () => {
+        const { isSubmitting, result } = useTriggerTask("test-task");
+        const { isLoading } = useRun(undefined);
+
+        return `${isSubmitting}:${result === undefined}:${isLoading}`;
+      };
+
+      const html = renderToString(
+        createElement(TriggerClientProvider, { client: createClient() }, createElement(Status)),
+      );
+
+      expect(html).toBe("false:true:false");
+    });
+
+    it("should return a submit that resolves when the trigger fails", async () => {
+      let submit: ReturnType<typeof useTriggerTask>["submit"] | undefined;
+      const Form = () => {
+        submit = useTriggerTask("test-task").submit;
+        return null;
+      };
+
+      renderToString(
+        createElement(
+          TriggerClientProvider,
+          { client: createClient({ schemas: { "test-task": emailSchema } }) },
+          createElement(Form),
+        ),
+      );
+
+      await expect(submit?.({ email: 42 })).resolves.toBeUndefined();
+    });
+
+    it("should throw without a client", () => {
+      const Status = () => {
+        useTriggerTask("test-task");
+        return null;
+      };
+
+      expect(() => renderToString(createElement(Status))).toThrow("TriggerClientProvider");
+    });
+  });
+});
@@ -1,9 +1,19 @@
-import { tasks } from "@trigger.dev/sdk";
+import { batch, runs, tasks } from "@trigger.dev/sdk";
 import { afterAll, beforeAll, beforeEach, vi } from "vitest";
 
 vi.mock("@trigger.dev/sdk", () => ({
   tasks: {
     trigger: vi.fn(),
+    batchTrigger: vi.fn(),
+  },
+  batch: {
+    retrieve: vi.fn(),
+  },
+  runs: {
+    retrieve: vi.fn(),
+    cancel: vi.fn(),
+    replay: vi.fn(),
+    subscribeToRun: vi.fn(),
   },
 }));
 
@@ -17,12 +27,88 @@ beforeAll(() => {
         // biome-ignore lint/suspicious/noExplicitAny: needed
       }) as any,
   );
+
+  vi.mocked(tasks.batchTrigger).mockImplementation(
+    async (_taskIdentifier, items) =>
+      ({
+        batchId: "batch_abc123",
+        runCount: items.length,
+        publicAccessToken: "test-token",
+        // biome-ignore lint/suspicious/noExplicitAny: needed
+      }) as any,
+  );
+
+  vi.mocked(batch.retrieve).mockImplementation(
+    (batchId) =>
+      ({
+        id: batchId,
+        status: "PROCESSING",
+        runCount: vi.mocked(tasks.batchTrigger).mock.lastCall?.[1].length ?? 0,
+        runs: (vi.mocked(tasks.batchTrigger).mock.lastCall?.[1] ?? []).map((_, index) => `run_item${index}`),
+        // biome-ignore lint/suspicious/noExplicitAny: needed
+      }) as any,
+  );
+
+  vi.mocked(runs.retrieve).mockImplementation(
+    (runId) =>
+      ({
+        id: runId,
+        taskIdentifier: "test-task",
+        status: "COMPLETED",
+        payload: { test: "data" },
+        output: { sent: true },
+        createdAt: new Date("2026-01-01T00:00:00.000Z"),
+        updatedAt: new Date("2026-01-01T00:00:05.000Z"),
+        startedAt: new Date("2026-01-01T00:00:01.000Z"),
+        finishedAt: new Date("2026-01-01T00:00:05.000Z"),
+        // biome-ignore lint/suspicious/noExplicitAny: needed
+      }) as any,
+  );
+
+  // biome-ignore lint/suspicious/noExplicitAny: needed
+  vi.mocked(runs.cancel).mockImplementation((runId) => ({ id: runId }) as any);
+
+  // biome-ignore lint/suspicious/noExplicitAny: needed
+  vi.mocked(runs.replay).mockImplementation(() => ({ id: "run_replay123" }) as any);
+
+  vi.mocked(runs.subscribeToRun).mockImplementation(
+    (runId) =>
+      ({
+        unsubscribe: vi.fn(),
+        async *[Symbol.asyncIterator]() {
+          const run = await runs.retrieve(runId);
+
+          yield {
+            ...run,
+            status: "EXECUTING",
+            output: undefined,
+            finishedAt: undefined,
+            isCompleted: false,
+            metadata: { progress: 0.5 },
+          };
+          yield { ...run, isCompleted: true, metadata: { progress: 1 } };
+        },
+        // biome-ignore lint/suspicious/noExplicitAny: needed
+      }) as any,
+  );
 });
 
 afterAll(() => {
   vi.mocked(tasks.trigger).mockReset();
+  vi.mocked(tasks.batchTrigger).mockReset();
+  vi.mocked(batch.retrieve).mockReset();
+  vi.mocked(runs.retrieve).mockReset();
+  vi.mocked(runs.cancel).mockReset();
+  vi.mocked(runs.replay).mockReset();
+  vi.mocked(runs.subscribeToRun).mockReset();
 });
 
 beforeEach(() => {
   vi.mocked(tasks.trigger).mockClear();
+  vi.mocked(tasks.batchTrigger).mockClear();
+  vi.mocked(batch.retrieve).mockClear();
+  vi.mocked(runs.retrieve).mockClear();
+  vi.mocked(runs.cancel).mockClear();
+  vi.mocked(runs.replay).mockClear();
+  vi.mocked(runs.subscribeToRun).mockClear();
 });
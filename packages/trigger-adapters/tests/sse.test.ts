@@ -0,0 +1,138 @@
+import { runs } from "@trigger.dev/sdk";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { TriggerResult } from "../src/core";
+import { createEventStream, writeEventStream } from "../src/sse";
+import { createEventStreamTarget, parseEvents, runSummary } from "./test-utils";
+
+const result = {
+  taskId: "test-task",
+  payload: { test: "data" },
+  handle: { id: "run_abc123", taskIdentifier: "test-task", publicAccessToken: "test-token" },
+} as unknown as TriggerResult;
+
+// A subscription that never yields, until it is unsubscribed.
+const createPendingSubscription = () => {
+  let stop: () => void = () => {};
+  const stopped = new Promise<void>((resolve) => {
+    stop = resolve;
+  });
+
+  const subscription = {
+    unsubscribe: vi.fn(() => stop()),
+    // biome-ignore lint/correctness/useYield: ends without an update once unsubscribed
+    async *[Symbol.asyncIterator]() {
+      await stopped;
+    },
+  };
+
+  // biome-ignore lint/suspicious/noExplicitAny: needed
+  vi.mocked(runs.subscribeToRun).mockReturnValueOnce(subscription as any);
+
+  return subscription;
+};
+
+describe("Server-Sent Events", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should stream the trigger result, run updates and the final run", async () => {
+    const text = await new Response(createEventStream("run_abc123", result)).text();
+
+    expect(runs.subscribeToRun).toHaveBeenCalledWith("run_abc123");
+    expect(parseEvents(text)).toEqual([
+      { event: "trigger", data: result },
+      {
+        event: "update",
+        data: {
+          ...runSummary("run_abc123"),
+          status: "EXECUTING",
+          output: undefined,
+          finishedAt: undefined,
+          metadata: { progress: 0.5 },
+        },
+      },
+      { event: "update", data: { ...runSummary("run_abc123"), metadata: { progress: 1 } } },
+      { event: "done", data: runSummary("run_abc123") },
+    ]);
+  });
+
+  it("should send an error event when the subscription fails", async () => {
+    vi.mocked(runs.subscribeToRun).mockReturnValueOnce({
+      unsubscribe: vi.fn(),
+      // biome-ignore lint/correctness/useYield: fails before the first update
+      async *[Symbol.asyncIterator]() {
+        throw new Error("Connection lost");
+      },
+      // biome-ignore lint/suspicious/noExplicitAny: needed
+    } as any);
+
+    const text = await new Response(createEventStream("run_abc123", result)).text();
+
+    expect(parseEvents(text).at(-1)).toEqual({ event: "error", data: { error: "Connection lost" } });
+  });
+
+  it("should send heartbeats while the run is in progress", async () => {
+    vi.useFakeTimers();
+    const subscription = createPendingSubscription();
+    const reader = createEventStream("run_abc123", result, { heartbeat: 1000 }).getReader();
+
+    await reader.read();
+    vi.advanceTimersByTime(1000);
+    const { value } = await reader.read();
+
+    expect(new TextDecoder().decode(value)).toBe(": heartbeat\n\n");
+
+    await reader.cancel();
+
+    expect(subscription.unsubscribe).toHaveBeenCalled();
+  });
+
+  it("should unsubscribe when the client disconnects", async () => {
+    const subscription = createPendingSubscription();
+    const target = createEventStreamTarget();
+
+    const writing = writeEventStream(createEventStream("run_abc123", result), target);
+    await vi.waitFor(() => expect(target.write).toHaveBeenCalled());
+    target.close();
+    await writing;
+
+    expect(target.writeHead).toHaveBeenCalledWith(
+      200,
+      expect.objectContaining({ "Content-Type": "text/event-stream" }),
+    );
+    expect(subscription.unsubscribe).toHaveBeenCalled();
+    expect(target.end).toHaveBeenCalled();
+  });
+
+  it("should wait for the response to drain before writing more", async () => {
+    const target = createEventStreamTarget();
+    target.pause();
+
+    const writing = writeEventStream(createEventStream("run_abc123", result), target);
+    await vi.waitFor(() => expect(target.write).toHaveBeenCalled());
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(target.write).toHaveBeenCalledTimes(1);
+
+    target.drain();
+    await writing;
+
+    expect(parseEvents(target.text()).map(({ event }) => event)).toEqual(["trigger", "update", "update", "done"]);
+    expect(target.end).toHaveBeenCalled();
+  });
+
+  it("should stop waiting for a drain when the client disconnects", async () => {
+    const subscription = createPendingSubscription();
+    const target = createEventStreamTarget();
+    target.pause();
+
+    const writing = writeEventStream(createEventStream("run_abc123", result), target);
+    await vi.waitFor(() => expect(target.write).toHaveBeenCalled());
+    target.close();
+    await writing;
+
+    expect(subscription.unsubscribe).toHaveBeenCalled();
+    expect(target.end).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import type { RequestEvent } from "@sveltejs/kit";
+import { runs, tasks } from "@trigger.dev/sdk";
+import { describe, expect, it, vi } from "vitest";
+import { handler, runHandler } from "../src/sveltekit";
+import { createRequest } from "./test-utils";
+
+const createEvent = (
+  id: string,
+  payload: unknown,
+  headers: Record<string, string> = {},
+  locals: Record<string, unknown> = {},
+): RequestEvent => {
+  return {
+    params: id ? { id } : {},
+    request: createRequest(`http://localhost/api/trigger/${id ?? ""}`, payload, headers),
+    locals,
+    getClientAddress: () => "127.0.0.1",
+  } as unknown as RequestEvent;
+};
+
+const trigger = vi.mocked(tasks.trigger);
+
+describe("SvelteKit Adapter", () => {
+  describe("authorize", () => {
+    it("should pass the request and locals to the authorize hook", async () => {
+      const authorize = vi.fn().mockResolvedValue(true);
+      const event = createEvent(
+        "test-task",
+        { test: "data" },
+        { Authorization: "Bearer token" },
+        { user: { id: "user_123" } },
+      );
+
+      const response = await handler({ authorize })(event);
+
+      const [request] = authorize.mock.calls[0];
+      expect(request.taskId).toBe("test-task");
+      expect(request.payload).toEqual({ test: "data" });
+      expect(request.headers.get("authorization")).toBe("Bearer token");
+      expect(request.locals).toEqual({ user: { id: "user_123" } });
+      expect(trigger).toHaveBeenCalledWith("test-task", { test: "data" });
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe("runs", () => {
+    const createRunEvent = (method: string, params: Record<string, string>, locals: Record<string, unknown> = {}) => {
+      return {
+        params,
+        request: new Request("http://localhost/api/runs", { method }),
+        locals,
+      } as unknown as RequestEvent;
+    };
+
+    it("should pass locals to authorize", async () => {
+      const authorize = vi.fn().mockReturnValue(true);
+
+      await runHandler({ authorize })(
+        createRunEvent("POST", { runId: "run_abc123", action: "cancel" }, { user: { id: "user_1" } }),
+      );
+
+      expect(authorize.mock.calls[0][0].locals).toEqual({ user: { id: "user_1" } });
+      expect(runs.cancel).toHaveBeenCalledWith("run_abc123");
+    });
+  });
+
+  describe("client address", () => {
+    // As on adapters that can't tell the address.
+    const unsupported = () => {
+      throw new Error("Cannot determine client address");
+    };
+
+    it("should only ask for it when the rate limit needs it", async () => {
+      const getClientAddress = vi.fn(unsupported);
+      const event = { ...createEvent("test-task", { test: "data" }), getClientAddress };
+
+      const response = await handler({ rateLimit: { limit: 1, window: 1000, key: () => "user_1" } })(event);
+
+      expect(response.status).toBe(200);
+      expect(getClientAddress).not.toHaveBeenCalled();
+      expect(trigger).toHaveBeenCalledWith("test-task", { test: "data" });
+    });
+
+    it("should count requests by it by default", async () => {
+      const getClientAddress = vi.fn(() => "10.0.0.1");
+      const limited = handler({ rateLimit: { limit: 5, window: 1000 } });
+
+      await limited({ ...createEvent("test-task", {}), getClientAddress });
+
+      expect(getClientAddress).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { context, propagation, trace } from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from "@opentelemetry/sdk-trace-base";
+import { tasks } from "@trigger.dev/sdk";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { handler } from "../src/fetch";
+import * as nextjs from "../src/nextjs";
+import { createRequest, emailSchema } from "./test-utils";
+
+const trigger = vi.mocked(tasks.trigger);
+
+const exporter = new InMemorySpanExporter();
+const provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+const tracer = provider.getTracer("test");
+
+const request = (payload: unknown) => createRequest("http://localhost/api/trigger/test-task", payload);
+
+describe("Telemetry", () => {
+  beforeAll(() => {
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  });
+
+  afterAll(() => {
+    context.disable();
+    propagation.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  it("should open a span for the request with the task, run and outcome", async () => {
+    const response = await handler({ telemetry: { tracer } })(request({ email: "a@example.com" }));
+
+    expect(response.status).toBe(200);
+
+    const [span] = exporter.getFinishedSpans();
+
+    expect(span.name).toBe("trigger test-task");
+    expect(span.attributes).toEqual({
+      "trigger.framework": "fetch",
+      "trigger.task_id": "test-task",
+      "trigger.run_id": "run_abc123",
+      "trigger.outcome": "success",
+      "http.response.status_code": 200,
+    });
+  });
+
+  it("should write the trace context into the run's metadata", async () => {
+    await handler({ telemetry: { tracer } })(request({ email: "a@example.com" }));
+
+    const [span] = exporter.getFinishedSpans();
+    const { traceId, spanId } = span.spanContext();
+
+    expect(trigger).toHaveBeenCalledWith(
+      "test-task",
+      { email: "a@example.com" },
+      { metadata: { traceContext: { traceparent: `00-${traceId}-${spanId}-01` } } },
+    );
+  });
+
+  it("should report the options without the trace context", async () => {
+    const response = await handler({
+      telemetry: { tracer },
+      triggerOptions: { "test-task": { metadata: { source: "web" } } },
+    })(request({ email: "a@example.com" }));
+
+    expect(trigger.mock.lastCall?.[2]?.metadata).toHaveProperty("traceContext");
+    expect((await response.json()).options).toEqual({ metadata: { source: "web" } });
+  });
+
+  it("should leave the metadata alone when metadataKey is false", async () => {
+    await handler({ telemetry: { tracer, metadataKey: false } })(request({ email: "a@example.com" }));
+
+    expect(trigger).toHaveBeenCalledWith("test-task", { email: "a@example.com" });
+  });
+
+  it("should record client errors without failing the span", async () => {
+    await handler({ telemetry: { tracer }, schemas: { "test-task": emailSchema } })(request({ email: 42 }));
+
+    const [span] = exporter.getFinishedSpans();
+
+    expect(span.attributes).toMatchObject({
+      "trigger.outcome": "error",
+      "trigger.error_code": "invalid_payload",
+      "http.response.status_code": 422,
+    });
+    expect(span.status.code).toBe(0);
+    expect(span.events).toEqual([]);
+  });
+
+  it("should record server errors as exceptions", async () => {
+    trigger.mockRejectedValueOnce(new Error("Connection refused"));
+
+    await handler({ telemetry: { tracer } })(request({ email: "a@example.com" }));
+
+    const [span] = exporter.getFinishedSpans();
+
+    expect(span.attributes).toMatchObject({ "trigger.error_code": "upstream_error" });
+    expect(span.status.code).toBe(2);
+    expect(span.events[0].name).toBe("exception");
+  });
+
+  it("should name the framework of the adapter", async () => {
+    await nextjs.handler({ telemetry: { tracer } }).POST(request({ email: "a@example.com" }));
+
+    expect(exporter.getFinishedSpans()[0].attributes["trigger.framework"]).toBe("nextjs");
+  });
+
+  it("should not open spans unless telemetry is on", async () => {
+    const startSpan = vi.spyOn(trace, "getTracer");
+
+    await handler()(request({ email: "a@example.com" }));
+
+    expect(startSpan).not.toHaveBeenCalled();
+    expect(trigger).toHaveBeenCalledWith("test-task", { email: "a@example.com" });
+    startSpan.mockRestore();
+  });
+});
+
+describe("Telemetry without a context manager", () => {
+  beforeAll(() => {
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  });
+
+  afterAll(() => {
+    propagation.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  it("should still record the run and pass the trace context on", async () => {
+    expect(trace.getActiveSpan()).toBeUndefined();
+
+    await handler({ telemetry: { tracer } })(request({ email: "a@example.com" }));
+
+    const [span] = exporter.getFinishedSpans();
+    const { traceId, spanId } = span.spanContext();
+
+    expect(span.attributes).toMatchObject({ "trigger.task_id": "test-task", "trigger.run_id": "run_abc123" });
+    expect(trigger).toHaveBeenCalledWith(
+      "test-task",
+      { email: "a@example.com" },
+      { metadata: { traceContext: { traceparent: `00-${traceId}-${spanId}-01` } } },
+    );
+  });
+});
@@ -1,10 +1,103 @@
+import { createHmac } from "node:crypto";
+import { expect, vi } from "vitest";
+import type { StandardSchemaV1 } from "../src/standard-schema";
+
 // biome-ignore lint/suspicious/noExplicitAny: matches the type accepted by JSON.stringify
-export function createRequest(url: string, data: any) {
+export function createRequest(url: string, data: any, headers: Record<string, string> = {}) {
   return new Request(url, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
+      ...headers,
     },
     body: JSON.stringify(data),
   });
 }
+
+// A minimal Standard Schema validator that requires an `email` string and lowercases it.
+export const emailSchema: StandardSchemaV1<unknown, { email: string }> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const email = (value as { email?: unknown } | null)?.email;
+
+      if (typeof email !== "string") {
+        return { issues: [{ message: "Expected a string", path: [{ key: "email" }] }] };
+      }
+
+      return { value: { email: email.toLowerCase() } };
+    },
+  },
+};
+
+// The summary of the run returned by the mocked `runs.retrieve`.
+export function runSummary(id: string) {
+  return {
+    id,
+    taskId: "test-task",
+    status: "COMPLETED",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:05.000Z",
+    startedAt: "2026-01-01T00:00:01.000Z",
+    finishedAt: "2026-01-01T00:00:05.000Z",
+    output: { sent: true },
+  };
+}
+
+// Parses a Server-Sent Events body into its events, skipping comments.
+export function parseEvents(text: string) {
+  return text
+    .split("\n\n")
+    .filter((block) => block.startsWith("event:"))
+    .map((block) => {
+      const [event, data] = block.split("\n").map((line) => line.slice(line.indexOf(":") + 2));
+      return { event, data: JSON.parse(data) };
+    });
+}
+
+// A stand-in for a Node.js `ServerResponse` that records what is written to it.
+// After `pause()`, writes report a full buffer until `drain()` is called.
+export function createEventStreamTarget() {
+  const chunks: Uint8Array[] = [];
+  const listeners: (() => void)[] = [];
+  const drains: (() => void)[] = [];
+  let paused = false;
+
+  return {
+    writeHead: vi.fn(),
+    write: vi.fn((chunk: Uint8Array) => {
+      chunks.push(chunk);
+      return !paused;
+    }),
+    end: vi.fn(),
+    on: vi.fn((_event: "close", listener: () => void) => listeners.push(listener)),
+    once: vi.fn((_event: "drain", listener: () => void) => drains.push(listener)),
+    close: () => {
+      for (const listener of listeners) {
+        listener();
+      }
+    },
+    pause: () => {
+      paused = true;
+    },
+    drain: () => {
+      paused = false;
+
+      for (const listener of drains.splice(0)) {
+        listener();
+      }
+    },
+    text: () => chunks.map((chunk) => new TextDecoder().decode(chunk)).join(""),
+  };
+}
+
+// Matches an `application/problem+json` body with the given detail and extension members.
+export function problem(detail: string, extensions: Record<string, unknown> = {}) {
+  return expect.objectContaining({ type: "about:blank", detail, ...extensions });
+}
+
+// Signs a body the way GitHub does, for webhook tests.
+export function githubSignature(secret: string, body: string) {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
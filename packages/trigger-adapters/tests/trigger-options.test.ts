@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { mergeTriggerOptions, readClientOptions } from "../src/trigger-options";
+
+describe("Trigger options", () => {
+  describe("readClientOptions", () => {
+    it("should read options from X-Trigger-* headers", () => {
+      const headers = new Headers({
+        "X-Trigger-Delay": "1h",
+        "X-Trigger-TTL": "600",
+        "X-Trigger-Tags": "user_123, signup",
+        "X-Trigger-Queue": "emails",
+        "X-Trigger-Concurrency-Key": "user_123",
+      });
+
+      const result = readClientOptions(headers, undefined, ["delay", "ttl", "tags", "queue", "concurrencyKey"]);
+
+      expect(result).toEqual({
+        ok: true,
+        options: {
+          delay: "1h",
+          ttl: 600,
+          tags: ["user_123", "signup"],
+          queue: "emails",
+          concurrencyKey: "user_123",
+        },
+      });
+    });
+
+    it("should let envelope options override headers", () => {
+      const headers = new Headers({ "X-Trigger-Delay": "1h" });
+
+      const result = readClientOptions(headers, { delay: "5m" }, ["delay"]);
+
+      expect(result).toEqual({ ok: true, options: { delay: "5m" } });
+    });
+
+    it("should reject options that are not allowed", () => {
+      const headers = new Headers({ "X-Trigger-Queue": "priority" });
+
+      const result = readClientOptions(headers, undefined, ["delay"]);
+
+      expect(result).toEqual({ ok: false, error: 'Trigger option "queue" is not allowed' });
+    });
+
+    it("should reject unknown envelope options", () => {
+      const result = readClientOptions(new Headers(), { machine: "large-2x" }, ["delay"]);
+
+      expect(result).toEqual({ ok: false, error: 'Unknown trigger option "machine"' });
+    });
+
+    it("should reject malformed values", () => {
+      const result = readClientOptions(new Headers(), { tags: [1, 2] }, ["tags"]);
+
+      expect(result).toEqual({ ok: false, error: 'Invalid value for trigger option "tags"' });
+    });
+
+    it("should reject envelope options that are not an object", () => {
+      const result = readClientOptions(new Headers(), "delay=1h", ["delay"]);
+
+      expect(result).toEqual({ ok: false, error: "Trigger options must be an object" });
+    });
+  });
+
+  describe("mergeTriggerOptions", () => {
+    it("should return undefined when there is nothing to merge", () => {
+      expect(mergeTriggerOptions(undefined, {})).toBeUndefined();
+    });
+
+    it("should layer client options over the defaults", () => {
+      expect(mergeTriggerOptions({ delay: "1h", queue: "emails" }, { delay: "5m" })).toEqual({
+        delay: "5m",
+        queue: "emails",
+      });
+    });
+
+    it("should keep tags from both", () => {
+      expect(mergeTriggerOptions({ tags: "server" }, { tags: ["client"] })).toEqual({
+        tags: ["server", "client"],
+      });
+    });
+  });
+});
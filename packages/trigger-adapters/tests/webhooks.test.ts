@@ -0,0 +1,129 @@
+import { createHmac } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { github, hmac, slack, stripe } from "../src/webhooks";
+import { githubSignature } from "./test-utils";
+
+const body = JSON.stringify({ id: "evt_123", type: "checkout.session.completed", data: { object: {} } });
+const now = 1_780_000_000;
+
+describe("Webhooks", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(now * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("github", () => {
+    const provider = github({ secret: "gh_secret" });
+
+    it("should accept a valid signature", async () => {
+      const headers = new Headers({ "X-Hub-Signature-256": githubSignature("gh_secret", body) });
+
+      expect(await provider.verify(body, headers)).toBe(true);
+    });
+
+    it("should reject a signature made with another secret or body", async () => {
+      expect(await provider.verify(body, new Headers({ "X-Hub-Signature-256": githubSignature("other", body) }))).toBe(
+        false,
+      );
+      expect(
+        await provider.verify(`${body} `, new Headers({ "X-Hub-Signature-256": githubSignature("gh_secret", body) })),
+      ).toBe(false);
+      expect(await provider.verify(body, new Headers())).toBe(false);
+    });
+
+    it("should read the event type and delivery ID from headers", () => {
+      const headers = new Headers({ "X-GitHub-Event": "push", "X-GitHub-Delivery": "delivery_1" });
+
+      expect(provider.event({}, headers)).toBe("push");
+      expect(provider.deliveryId?.({}, headers)).toBe("delivery_1");
+    });
+  });
+
+  describe("stripe", () => {
+    const provider = stripe({ secret: "whsec_test" });
+    const sign = (timestamp: number, secret = "whsec_test") =>
+      `t=${timestamp},v1=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+
+    it("should accept a valid signature", async () => {
+      expect(await provider.verify(body, new Headers({ "Stripe-Signature": sign(now) }))).toBe(true);
+    });
+
+    it("should accept any of several v1 signatures", async () => {
+      const header = `${sign(now, "whsec_old")},${sign(now).split(",")[1]}`;
+
+      expect(await provider.verify(body, new Headers({ "Stripe-Signature": header }))).toBe(true);
+    });
+
+    it("should reject signatures outside the tolerance", async () => {
+      expect(await provider.verify(body, new Headers({ "Stripe-Signature": sign(now - 301) }))).toBe(false);
+    });
+
+    it("should read the event type and ID from the payload", () => {
+      const payload = JSON.parse(body);
+
+      expect(provider.event(payload, new Headers())).toBe("checkout.session.completed");
+      expect(provider.deliveryId?.(payload, new Headers())).toBe("evt_123");
+    });
+  });
+
+  describe("slack", () => {
+    const provider = slack({ secret: "slack_secret" });
+    const sign = (timestamp: number, payload: string) =>
+      `v0=${createHmac("sha256", "slack_secret").update(`v0:${timestamp}:${payload}`).digest("hex")}`;
+
+    it("should accept a valid signature", async () => {
+      const headers = new Headers({
+        "X-Slack-Signature": sign(now, body),
+        "X-Slack-Request-Timestamp": String(now),
+      });
+
+      expect(await provider.verify(body, headers)).toBe(true);
+    });
+
+    it("should reject replayed requests", async () => {
+      const headers = new Headers({
+        "X-Slack-Signature": sign(now - 600, body),
+        "X-Slack-Request-Timestamp": String(now - 600),
+      });
+
+      expect(await provider.verify(body, headers)).toBe(false);
+    });
+
+    it("should read the inner event type of event callbacks", () => {
+      expect(provider.event({ type: "event_callback", event: { type: "app_mention" } }, new Headers())).toBe(
+        "app_mention",
+      );
+    });
+
+    it("should answer URL verification with the challenge", () => {
+      expect(provider.respond?.({ type: "url_verification", challenge: "abc" })).toEqual({ challenge: "abc" });
+      expect(provider.respond?.({ type: "event_callback" })).toBeUndefined();
+    });
+  });
+
+  describe("hmac", () => {
+    it("should verify base64 signatures with a prefix", async () => {
+      const provider = hmac({
+        secret: "s3cret",
+        header: "X-Signature",
+        algorithm: "sha512",
+        encoding: "base64",
+        prefix: "sha512=",
+      });
+      const signature = createHmac("sha512", "s3cret").update(body).digest("base64");
+
+      expect(await provider.verify(body, new Headers({ "X-Signature": `sha512=${signature}` }))).toBe(true);
+      expect(await provider.verify(body, new Headers({ "X-Signature": signature }))).toBe(false);
+    });
+
+    it("should read the event type from the payload by default", () => {
+      expect(hmac({ secret: "s3cret", header: "X-Signature" }).event({ type: "order.paid" }, new Headers())).toBe(
+        "order.paid",
+      );
+    });
+  });
+});
@@ -4,7 +4,18 @@ export default defineConfig({
   exports: true,
   platform: "node",
   format: ["esm", "cjs"],
-  external: ["express", "hono", "next", "@trigger.dev/sdk"],
+  external: [
+    "elysia",
+    "express",
+    "hono",
+    "koa",
+    "next",
+    "@nestjs/common",
+    "@sveltejs/kit",
+    "@trigger.dev/sdk",
+    "@opentelemetry/api",
+    "react",
+  ],
   dts: true,
   sourcemap: true,
   entry: {
@@ -12,5 +23,15 @@ export default defineConfig({
     hono: "./src/hono.ts",
     express: "./src/express.ts",
     fastify: "./src/fastify.ts",
+    elysia: "./src/elysia.ts",
+    sveltekit: "./src/sveltekit.ts",
+    fetch: "./src/fetch.ts",
+    koa: "./src/koa.ts",
+    nestjs: "./src/nestjs.ts",
+    errors: "./src/errors.ts",
+    webhooks: "./src/webhooks.ts",
+    client: "./src/client.ts",
+    react: "./src/react.ts",
+    openapi: "./src/openapi.ts",
   },
 });